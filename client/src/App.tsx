@@ -7,14 +7,16 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
 import ClientDashboard from "@/pages/client-dashboard";
 import DriverDashboard from "@/pages/driver-dashboard";
 import AdminDashboard from "@/pages/admin-dashboard";
 import NotFound from "@/pages/not-found";
-import type { User } from "@shared/schema";
 
 function Router() {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, can } = useAuth();
 
   if (isLoading) {
     return (
@@ -29,24 +31,26 @@ function Router() {
 
   return (
     <Switch>
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       {!user ? (
         <>
           <Route path="/" component={Landing} />
           <Route path="/login" component={Login} />
           <Route path="/register" component={Register} />
+          <Route path="/forgot-password" component={ForgotPassword} />
         </>
       ) : (
         <>
           <Route path="/" component={() => {
-            const typedUser = user as User;
-            if (typedUser.role === "client") return <ClientDashboard />;
-            if (typedUser.role === "driver") return <DriverDashboard />;
-            if (typedUser.role === "admin") return <AdminDashboard />;
+            if (can("requests:view_all")) return <AdminDashboard />;
+            if (can("bids:create")) return <DriverDashboard />;
+            if (can("requests:create")) return <ClientDashboard />;
             return <NotFound />;
           }} />
-          <Route path="/client" component={ClientDashboard} />
-          <Route path="/driver" component={DriverDashboard} />
-          <Route path="/admin" component={AdminDashboard} />
+          {can("requests:create") && <Route path="/client" component={ClientDashboard} />}
+          {can("bids:create") && <Route path="/driver" component={DriverDashboard} />}
+          {can("requests:view_all") && <Route path="/admin" component={AdminDashboard} />}
         </>
       )}
       <Route component={NotFound} />
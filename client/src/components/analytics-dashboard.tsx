@@ -0,0 +1,411 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart as BarChartIcon, Calendar, CheckCircle, DollarSign, MapPin, TrendingUp, Users, Activity } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { REQUEST_STATUS_LABELS, isRequestStatus } from "@shared/requestStatus";
+import {
+  ANALYTICS_TIME_ZONE,
+  type ActivityBreakdown,
+  type AnalyticsGranularity,
+  type AnalyticsSummary,
+  type AnalyticsTimePoint,
+  type BidResponseTimes,
+  type PopularRoute,
+  type TopDriver,
+} from "@shared/analytics";
+
+const RANGE_OPTIONS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last 12 months" },
+];
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const STATUS_DOT_COLORS: Record<string, string> = {
+  pending: "bg-yellow-400",
+  assigned: "bg-blue-400",
+  in_progress: "bg-purple-400",
+  completed: "bg-green-400",
+  cancelled: "bg-red-400",
+  expired: "bg-gray-400",
+};
+
+const trendChartConfig = {
+  revenue: { label: "Revenue (R)", color: "hsl(142, 71%, 45%)" },
+  requests: { label: "Requests", color: "hsl(217, 91%, 60%)" },
+} satisfies ChartConfig;
+
+const activityChartConfig = {
+  requests: { label: "Requests", color: "hsl(262, 83%, 58%)" },
+} satisfies ChartConfig;
+
+const formatRand = (value: number) => `R ${Math.round(value).toLocaleString()}`;
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return "–";
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return hours < 48 ? `${hours.toFixed(1)} hours` : `${(hours / 24).toFixed(1)} days`;
+};
+
+const statusLabel = (status: string) => (isRequestStatus(status) ? REQUEST_STATUS_LABELS[status] : status);
+
+function formatPeriod(period: string, granularity: AnalyticsGranularity) {
+  const date = new Date(period);
+  return granularity === "month"
+    ? date.toLocaleDateString(undefined, { month: "short", year: "2-digit", timeZone: ANALYTICS_TIME_ZONE })
+    : date.toLocaleDateString(undefined, { day: "numeric", month: "short", timeZone: ANALYTICS_TIME_ZONE });
+}
+
+// Every analytics endpoint takes the same range; the key includes it so changing the range refetches
+function useAnalytics<T>(endpoint: string, params: Record<string, string>) {
+  return useQuery<T>({
+    queryKey: ["/api/admin/analytics", endpoint, params],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/analytics/${endpoint}?${new URLSearchParams(params).toString()}`);
+      return response.json();
+    },
+    retry: false,
+  });
+}
+
+export function AnalyticsDashboard() {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>("day");
+
+  // Fixed when the range is picked so the query keys stay stable between renders
+  const range = useMemo(() => {
+    const to = new Date();
+    return { from: new Date(to.getTime() - rangeDays * 24 * 60 * 60 * 1000).toISOString(), to: to.toISOString() };
+  }, [rangeDays]);
+
+  const { data: summary } = useAnalytics<AnalyticsSummary>("summary", range);
+  const { data: timeSeries } = useAnalytics<AnalyticsTimePoint[]>("timeseries", { ...range, granularity });
+  const { data: topDrivers } = useAnalytics<TopDriver[]>("top-drivers", range);
+  const { data: routes } = useAnalytics<PopularRoute[]>("routes", range);
+  const { data: activity } = useAnalytics<ActivityBreakdown>("activity", range);
+  const { data: responseTimes } = useAnalytics<BidResponseTimes>("bid-response-times", range);
+
+  const revenueChange = summary && summary.previousRevenue > 0
+    ? Math.round(((summary.revenue - summary.previousRevenue) / summary.previousRevenue) * 1000) / 10
+    : null;
+  const totalRequests = summary?.statusBreakdown.reduce((sum, row) => sum + row.count, 0) ?? 0;
+  const peakHours = activity ? [...activity.hours].sort((a, b) => b.requests - a.requests).slice(0, 3) : [];
+
+  return (
+    <div className="space-y-4 sm:space-y-8">
+      <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+        <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+          <SelectTrigger className="w-full sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={granularity} onValueChange={(value) => setGranularity(value as AnalyticsGranularity)}>
+          <SelectTrigger className="w-full sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">Daily</SelectItem>
+            <SelectItem value="week">Weekly</SelectItem>
+            <SelectItem value="month">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-8">
+        {/* Revenue Overview */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Revenue Analytics
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-green-50 p-4 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <TrendingUp className="h-4 w-4 text-green-600" />
+                    <span className="text-sm text-green-700">Total Revenue</span>
+                  </div>
+                  <p className="text-2xl font-bold text-green-800">{summary ? formatRand(summary.revenue) : "–"}</p>
+                  <p className="text-sm text-green-600">
+                    {revenueChange === null
+                      ? "No revenue in the previous period"
+                      : `${revenueChange >= 0 ? "+" : ""}${revenueChange}% from the previous period`}
+                  </p>
+                </div>
+                <div className="bg-blue-50 p-4 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <Activity className="h-4 w-4 text-blue-600" />
+                    <span className="text-sm text-blue-700">Avg Deal Value</span>
+                  </div>
+                  <p className="text-2xl font-bold text-blue-800">
+                    {summary?.averageDealValue != null ? formatRand(summary.averageDealValue) : "–"}
+                  </p>
+                  <p className="text-sm text-blue-600">{summary?.deals ?? 0} accepted bids</p>
+                </div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-900 mb-2">Revenue by Status</h4>
+                <div className="space-y-2">
+                  {summary?.revenueByStatus.length ? (
+                    summary.revenueByStatus.map((row) => (
+                      <div key={row.status} className="flex justify-between items-center">
+                        <span className="text-sm text-gray-600">{statusLabel(row.status)}</span>
+                        <span className="font-medium">{formatRand(row.revenue)}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-gray-500">No accepted bids in this period</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Driver Performance */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Driver Performance
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-purple-50 p-4 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-purple-600" />
+                    <span className="text-sm text-purple-700">Top Performer</span>
+                  </div>
+                  {topDrivers?.length ? (
+                    <>
+                      <p className="text-lg font-bold text-purple-800">
+                        {topDrivers[0].firstName} {topDrivers[0].lastName}
+                      </p>
+                      <p className="text-sm text-purple-600">
+                        {topDrivers[0].ratingAverage !== null ? `★ ${topDrivers[0].ratingAverage.toFixed(1)} Rating` : "No ratings yet"}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-purple-600 mt-2">No assigned jobs yet</p>
+                  )}
+                </div>
+                <div className="bg-orange-50 p-4 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <Activity className="h-4 w-4 text-orange-600" />
+                    <span className="text-sm text-orange-700">Completion Rate</span>
+                  </div>
+                  <p className="text-2xl font-bold text-orange-800">
+                    {summary?.completionRate != null ? `${summary.completionRate}%` : "–"}
+                  </p>
+                  <p className="text-sm text-orange-600">Of requests that finished</p>
+                </div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-900 mb-3">Driver Leaderboard</h4>
+                <div className="space-y-2">
+                  {topDrivers?.length ? (
+                    topDrivers.map((driver, index) => (
+                      <div key={driver.driverId} className="flex justify-between items-center py-1">
+                        <div className="flex items-center gap-2">
+                          <div className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center text-xs font-bold">
+                            {index + 1}
+                          </div>
+                          <span className="text-sm">{driver.firstName} {driver.lastName}</span>
+                        </div>
+                        <span className="text-sm font-medium">
+                          {driver.completedJobs} jobs · {formatRand(driver.revenue)}
+                        </span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-gray-500">No drivers assigned in this period</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Trend */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Requests and Revenue
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {timeSeries?.length ? (
+              <ChartContainer config={trendChartConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={timeSeries.map((point) => ({ ...point, label: formatPeriod(point.period, granularity) }))}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="revenue" tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="requests" orientation="right" tickLine={false} axisLine={false} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line yAxisId="revenue" dataKey="revenue" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+                  <Line yAxisId="requests" dataKey="requests" stroke="var(--color-requests)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-8">No requests in this period</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Request Analytics */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChartIcon className="h-5 w-5" />
+              Request Analytics
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="text-center p-3 bg-blue-50 rounded-lg">
+                  <div className="text-2xl font-bold text-blue-800">{totalRequests}</div>
+                  <div className="text-sm text-blue-600">Requests</div>
+                </div>
+                <div className="text-center p-3 bg-green-50 rounded-lg">
+                  <div className="text-2xl font-bold text-green-800">
+                    {summary?.averageRating != null ? `★ ${summary.averageRating.toFixed(1)}` : "–"}
+                  </div>
+                  <div className="text-sm text-green-600">Average Review</div>
+                </div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-900 mb-3">Status Breakdown</h4>
+                <div className="space-y-2">
+                  {summary?.statusBreakdown.map((row) => (
+                    <div key={row.status} className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-3 h-3 rounded-full ${STATUS_DOT_COLORS[row.status] ?? "bg-gray-400"}`}></div>
+                        <span className="text-sm">{statusLabel(row.status)}</span>
+                      </div>
+                      <span className="text-sm font-medium">{row.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Geographic Analytics */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Geographic Insights
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <h4 className="font-medium text-gray-900 mb-3">Popular Routes</h4>
+              <div className="space-y-2">
+                {routes?.length ? (
+                  routes.map((route) => (
+                    <div key={`${route.pickupLocation}-${route.deliveryLocation}`} className="flex justify-between items-center py-1 gap-4">
+                      <span className="text-sm truncate">{route.pickupLocation} → {route.deliveryLocation}</span>
+                      <span className="text-sm font-medium whitespace-nowrap">
+                        {route.requests} request{route.requests === 1 ? "" : "s"} · avg {formatRand(route.averageBudget)}
+                      </span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500">No requests in this period</p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Time-based Analytics */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Time-Based Analytics
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-900 mb-3">Peak Hours</h4>
+                {activity && (
+                  <ChartContainer config={activityChartConfig} className="h-32 w-full aspect-auto">
+                    <BarChart data={activity.hours}>
+                      <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={5} tickFormatter={(hour) => `${hour}h`} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.hour}:00`} />} />
+                      <Bar dataKey="requests" fill="var(--color-requests)" radius={2} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+                <div className="space-y-1 mt-2">
+                  {peakHours.filter((slot) => slot.requests > 0).map((slot) => (
+                    <div key={slot.hour} className="flex justify-between items-center">
+                      <span className="text-sm">{slot.hour}:00 - {slot.hour + 1}:00</span>
+                      <span className="text-sm font-medium">{slot.requests} requests</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-900 mb-3">Weekly Trends</h4>
+                {activity && (
+                  <ChartContainer config={activityChartConfig} className="h-40 w-full aspect-auto">
+                    <BarChart data={activity.weekdays.map((day) => ({ ...day, label: WEEKDAY_LABELS[day.weekday] }))}>
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="requests" fill="var(--color-requests)" radius={2} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-900 mb-3">Bid Response Times</h4>
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Average to first bid</span>
+                    <span className="text-sm font-medium">{formatMinutes(responseTimes?.averageMinutes ?? null)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Median</span>
+                    <span className="text-sm font-medium">{formatMinutes(responseTimes?.medianMinutes ?? null)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Fastest</span>
+                    <span className="text-sm font-medium">{formatMinutes(responseTimes?.fastestMinutes ?? null)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Requests with bids</span>
+                    <span className="text-sm font-medium">{responseTimes?.requestsWithBids ?? 0}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import type { AuctionState } from "@shared/auction";
+
+interface AuctionStandingProps {
+  requestId: number;
+}
+
+export function AuctionStanding({ requestId }: AuctionStandingProps) {
+  const { data: auction } = useQuery<AuctionState>({
+    queryKey: ["/api/transport-requests", requestId, "auction"],
+    retry: false,
+  });
+
+  if (!auction) return null;
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-3 mb-4 text-sm">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-medium text-indigo-900">Open auction</span>
+        {auction.myBid && (
+          <Badge className={auction.myBid.rank === 1 ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
+            Your rank: #{auction.myBid.rank} of {auction.bidCount}
+          </Badge>
+        )}
+      </div>
+      <p className="text-indigo-800">
+        {auction.lowestAmount !== null
+          ? `Lowest bid: R${auction.lowestAmount.toFixed(2)} (${auction.bidCount} bid${auction.bidCount === 1 ? "" : "s"})`
+          : "No bids yet"}
+      </p>
+      {auction.maximumAllowedBid !== null && auction.myBid?.rank !== 1 && (
+        <p className="text-xs text-indigo-700 mt-1">
+          Bids must be R{auction.minBidDecrement.toFixed(2)} below the lowest: bid R{auction.maximumAllowedBid.toFixed(2)} or less to lead.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -8,39 +8,66 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { User, Star, Mail, Phone, Calendar } from "lucide-react";
-import { type TransportRequest, type Bid } from "@shared/schema";
+import { User, Star, Mail, Phone, Calendar, Award } from "lucide-react";
+import { REVIEW_CATEGORIES, type TransportRequest, type VehicleType, type DriverMetrics, type DriverProfile } from "@shared/schema";
+import { BID_SCORE_FACTOR_LABELS, type ScoredBid } from "@shared/bidScoring";
 import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { formatVehicleName, vehicleTypeLabels } from "@/components/vehicle-manager";
 
 interface BidModalProps {
   requestId: number;
   onClose: () => void;
-  onSelectDriver: (driverId: string) => void;
+  // Both pass the request version shown in the modal so a stale view is rejected with a 409
+  onSelectDriver?: (driverId: string, version: number) => void; // admin assignment
+  onAcceptBid?: (bidId: number, version: number) => void; // client accepting a bid on their own request
+  isAccepting?: boolean;
 }
 
 export default function BidModal({
   requestId,
   onClose,
   onSelectDriver,
+  onAcceptBid,
+  isAccepting,
 }: BidModalProps) {
+  const { can } = useAuth();
   const [selectedDriverId, setSelectedDriverId] = useState<number | null>(null);
 
-  const { data: request, isLoading: requestLoading } = useQuery({
+  const { data: request, isLoading: requestLoading } = useQuery<TransportRequest>({
     queryKey: ["/api/transport-requests", requestId],
     retry: false,
   });
 
-  const { data: bids, isLoading: bidsLoading } = useQuery({
-    queryKey: ["/api/bids/request", requestId],
+  // Ranked best first by the server's scoring service
+  const { data: bids, isLoading: bidsLoading } = useQuery<ScoredBid[]>({
+    queryKey: ["/api/bids/request", requestId, { sort: "score" }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/bids/request/${requestId}?sort=score`);
+      return response.json();
+    },
     retry: false,
   });
 
-  const { data: driverProfile, isLoading: driverLoading } = useQuery({
+  const recommendedBidId = bids?.find((bid) => bid.status === "pending" || bid.status === "client_selected")?.id;
+
+  const { data: driverProfile, isLoading: driverLoading } = useQuery<DriverProfile>({
     queryKey: ["/api/drivers", selectedDriverId],
     retry: false,
     enabled: !!selectedDriverId,
   });
 
+  const { data: driverMetrics } = useQuery<DriverMetrics>({
+    queryKey: ["/api/drivers", selectedDriverId, "metrics"],
+    retry: false,
+    enabled: !!selectedDriverId,
+  });
+
+  const driverRating = driverProfile?.rating;
+  const recentReviews = driverProfile?.recentReviews ?? [];
+  const stopLocations = request && Array.isArray(request.stopLocations) ? (request.stopLocations as string[]) : [];
+
   if (requestLoading || bidsLoading) {
     return (
       <Dialog open={true} onOpenChange={onClose}>
@@ -75,12 +102,12 @@ export default function BidModal({
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{/* Dynamic grid adjustment for multiple stops */}
                 <div className={request?.isMultipleStops ? "md:col-span-2" : ""}>
                   <p className="text-sm text-gray-600">Route</p>
-                  {request?.isMultipleStops && request?.stopLocations && request.stopLocations.length > 0 ? (
+                  {request?.isMultipleStops && stopLocations.length > 0 ? (
                     <div className="space-y-1">
                       <p className="font-medium">
                         <span className="text-blue-600">Start:</span> {request.pickupLocation}
                       </p>
-                      {request.stopLocations.map((stop, index) => (
+                      {stopLocations.map((stop, index) => (
                         <p key={index} className="font-medium text-orange-600 ml-4">
                           Stop {index + 1}: {stop}
                         </p>
@@ -126,8 +153,8 @@ export default function BidModal({
                 No bids received yet
               </p>
             ) : (
-              bids?.map((bid: Bid) => (
-                <Card key={bid.id} className="border border-gray-200">
+              bids?.map((bid) => (
+                <Card key={bid.id} className={`border ${bid.id === recommendedBidId ? "border-green-500" : "border-gray-200"}`}>
                   <CardContent className="p-4">
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
@@ -140,8 +167,11 @@ export default function BidModal({
                               Driver {bid.driverId}
                             </p>
                             <div className="flex items-center text-sm text-gray-600">
-                              <Star className="h-4 w-4 text-yellow-500 mr-1" />
-                              <span>4.5/5 rating</span>
+                              <Award className="h-4 w-4 text-green-600 mr-1" />
+                              <span>Match score {bid.score}/100</span>
+                              {bid.id === recommendedBidId && (
+                                <Badge className="ml-2 bg-green-100 text-green-800">Recommended</Badge>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -166,9 +196,9 @@ export default function BidModal({
                           <div>
                             <p className="text-sm text-gray-600">Status</p>
                             <Badge
-                              className={`${bid.status === "pending" ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-800"}`}
+                              className={`${bid.status === "pending" ? "bg-yellow-100 text-yellow-800" : bid.status === "client_selected" ? "bg-blue-100 text-blue-800" : "bg-gray-100 text-gray-800"}`}
                             >
-                              {bid.status}
+                              {bid.status === "client_selected" ? "awaiting approval" : bid.status}
                             </Badge>
                           </div>
                         </div>
@@ -179,16 +209,48 @@ export default function BidModal({
                             <p className="text-gray-900">{bid.message}</p>
                           </div>
                         )}
+
+                        {bid.scoreBreakdown && (
+                          <div className="bg-gray-50 rounded-lg p-3">
+                            <p className="text-sm font-medium text-gray-700 mb-2">Score breakdown</p>
+                            <div className="space-y-1">
+                              {bid.scoreBreakdown.map((component) => (
+                                <div key={component.factor} className="flex justify-between text-xs text-gray-600">
+                                  <span>
+                                    {BID_SCORE_FACTOR_LABELS[component.factor]}{" "}
+                                    <span className="text-gray-400">({component.detail})</span>
+                                  </span>
+                                  <span className="font-medium text-gray-900">
+                                    {component.points} pts
+                                    <span className="text-gray-400 font-normal"> · weight {component.weight}</span>
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
 
                       <div className="ml-4 flex flex-col space-y-2">
-                        <Button
-                          onClick={() => onSelectDriver(bid.driverId)}
-                          className="bg-green-600 hover:bg-green-700"
-                          size="sm"
-                        >
-                          Select Driver
-                        </Button>
+                        {onSelectDriver && can("requests:assign") && (
+                          <Button
+                            onClick={() => onSelectDriver(bid.driverId, request?.version)}
+                            className="bg-green-600 hover:bg-green-700"
+                            size="sm"
+                          >
+                            {bid.status === "client_selected" ? "Approve Client's Choice" : "Select Driver"}
+                          </Button>
+                        )}
+                        {onAcceptBid && can("bids:accept_own") && bid.status === "pending" && request?.status === "pending" && (
+                          <Button
+                            onClick={() => onAcceptBid(bid.id, request?.version)}
+                            disabled={isAccepting}
+                            className="bg-green-600 hover:bg-green-700"
+                            size="sm"
+                          >
+                            Accept Bid
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           onClick={() => setSelectedDriverId(bid.driverId)}
@@ -231,7 +293,11 @@ export default function BidModal({
                     </h3>
                     <div className="flex items-center text-gray-600">
                       <Star className="h-4 w-4 text-yellow-500 mr-1" />
-                      <span>4.5/5 rating (23 reviews)</span>
+                      <span>
+                        {driverRating?.average != null
+                          ? `${driverRating.average.toFixed(1)}/5 rating (${driverRating.count} reviews)`
+                          : "No ratings yet"}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -270,25 +336,72 @@ export default function BidModal({
                       <p className="text-sm text-gray-600 mb-1">
                         Completed Jobs
                       </p>
-                      <p className="text-xl font-bold text-gray-900">47</p>
+                      <p className="text-xl font-bold text-gray-900">{driverMetrics?.completedJobs ?? "–"}</p>
                     </div>
                     <div>
                       <p className="text-sm text-gray-600 mb-1">
                         On-Time Delivery
                       </p>
-                      <p className="text-xl font-bold text-green-600">96%</p>
+                      <p className="text-xl font-bold text-green-600">
+                        {driverMetrics?.onTimeRate != null ? `${driverMetrics.onTimeRate}%` : "–"}
+                      </p>
                     </div>
                   </div>
                 </div>
 
+                {driverRating && driverRating.count > 0 && (
+                  <div className="bg-yellow-50 rounded-lg p-4">
+                    <h4 className="font-semibold text-gray-900 mb-3">
+                      Reviews
+                    </h4>
+                    <div className="grid grid-cols-3 gap-2 mb-3">
+                      {REVIEW_CATEGORIES.map((category) => (
+                        <div key={category}>
+                          <p className="text-xs text-gray-600 capitalize">{category}</p>
+                          <p className="font-medium text-gray-900">
+                            {driverRating.categories[category] != null ? `${driverRating.categories[category]?.toFixed(1)}/5` : "–"}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2">
+                      {recentReviews.map((review) => (
+                        <div key={review.id} className="border-t border-yellow-100 pt-2">
+                          <p className="text-sm font-medium text-gray-900">
+                            {"★".repeat(review.rating)}
+                            <span className="text-gray-300">{"★".repeat(5 - review.rating)}</span>
+                            <span className="ml-2 text-xs text-gray-500">
+                              {review.reviewerFirstName || "Client"} · {new Date(review.createdAt).toLocaleDateString()}
+                            </span>
+                          </p>
+                          {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="bg-blue-50 rounded-lg p-4">
                   <h4 className="font-semibold text-blue-900 mb-3">
                     Vehicle Information
                   </h4>
-                  <p className="text-blue-700 font-medium">
-                    2019 Ford Transit - License: TRK123
-                  </p>
-                  <p className="text-blue-700">Max capacity: 2,500 kg</p>
+                  {driverProfile && driverProfile.vehicles.length > 0 ? (
+                    <div className="space-y-2">
+                      {driverProfile.vehicles.map((vehicle) => (
+                        <div key={vehicle.id}>
+                          <p className="text-blue-700 font-medium">
+                            {formatVehicleName(vehicle)}
+                          </p>
+                          <p className="text-blue-700">
+                            {vehicleTypeLabels[vehicle.type as VehicleType] || vehicle.type} • Max capacity:{" "}
+                            {Number(vehicle.maxPayloadKg).toLocaleString()} kg
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-blue-700">No vehicles registered</p>
+                  )}
                 </div>
 
                 <Button
@@ -0,0 +1,118 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Award } from "lucide-react";
+import {
+  bidScoringWeightsSchema,
+  BID_SCORE_FACTORS,
+  BID_SCORE_FACTOR_LABELS,
+  DEFAULT_BID_SCORING_WEIGHTS,
+  type BidScoringWeights,
+} from "@shared/bidScoring";
+
+export function BidScoringSettings() {
+  const { toast } = useToast();
+
+  const { data: weights, isLoading } = useQuery<BidScoringWeights>({
+    queryKey: ["/api/admin/settings/bid-scoring"],
+    retry: false,
+  });
+
+  const form = useForm<BidScoringWeights>({
+    resolver: zodResolver(bidScoringWeightsSchema),
+    defaultValues: DEFAULT_BID_SCORING_WEIGHTS,
+  });
+
+  useEffect(() => {
+    if (weights) form.reset(weights);
+  }, [weights, form]);
+
+  const saveWeightsMutation = useMutation({
+    mutationFn: async (data: BidScoringWeights) => {
+      const response = await apiRequest("PUT", "/api/admin/settings/bid-scoring", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Bid scoring weights saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings/bid-scoring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bids/request"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save bid scoring weights",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const watched = form.watch();
+  const totalWeight = BID_SCORE_FACTORS.reduce((sum, factor) => sum + (Number(watched[factor]) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Award className="h-6 w-6" />
+          Bid Scoring
+        </CardTitle>
+        <p className="text-gray-600">
+          How much each factor counts when bids are ranked. Weights are relative: each factor's share is its weight
+          divided by the total.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading weights...</p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveWeightsMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                {BID_SCORE_FACTORS.map((factor) => (
+                  <FormField
+                    key={factor}
+                    control={form.control}
+                    name={factor}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{BID_SCORE_FACTOR_LABELS[factor]}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} max={100} {...field} />
+                        </FormControl>
+                        <p className="text-xs text-gray-500">
+                          {totalWeight > 0 ? Math.round(((Number(watched[factor]) || 0) / totalWeight) * 100) : 0}% of the score
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              {totalWeight === 0 && (
+                <p className="text-sm text-red-600">At least one weight must be above zero</p>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => form.reset(DEFAULT_BID_SCORING_WEIGHTS)}>
+                  Reset to Defaults
+                </Button>
+                <Button type="submit" disabled={saveWeightsMutation.isPending || totalWeight === 0}>
+                  {saveWeightsMutation.isPending ? "Saving..." : "Save Weights"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
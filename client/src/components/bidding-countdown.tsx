@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { getBiddingTimeRemaining, type BiddingWindow } from "@shared/bidding";
+
+interface BiddingCountdownProps {
+  request: BiddingWindow;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+export function BiddingCountdown({ request }: BiddingCountdownProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = getBiddingTimeRemaining(request, now);
+  if (remaining === null) return null;
+
+  const urgent = remaining < 60 * 60 * 1000;
+
+  return (
+    <span className={`inline-flex items-center text-xs font-medium ${urgent ? "text-red-600" : "text-gray-600"}`}>
+      <Clock className="h-3 w-3 mr-1" />
+      {remaining === 0 || request.biddingClosedAt ? "Bidding closed" : `Bidding closes in ${formatRemaining(remaining)}`}
+    </span>
+  );
+}
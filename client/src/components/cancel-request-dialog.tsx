@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TransportRequest } from "@shared/schema";
+
+interface CancelRequestDialogProps {
+  request: TransportRequest;
+  onClose: () => void;
+}
+
+interface CancellationQuote {
+  fee: number;
+  cancellable: boolean;
+}
+
+export function CancelRequestDialog({ request, onClose }: CancelRequestDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const { data: quote, isLoading: quoteLoading } = useQuery<CancellationQuote>({
+    queryKey: ["/api/transport-requests", request.id, "cancellation-fee"],
+    retry: false,
+  });
+
+  const cancelRequestMutation = useMutation({
+    mutationFn: async (data: { reason: string }) => {
+      const response = await apiRequest("POST", `/api/transport-requests/${request.id}/cancel`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Request cancelled",
+        description: "Drivers who bid on this request have been notified",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel Request REQ-{request.id}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {quoteLoading ? (
+            <p className="text-sm text-gray-500">Checking cancellation fee...</p>
+          ) : quote && !quote.cancellable ? (
+            <p className="text-sm text-red-700">
+              This request can no longer be cancelled. Please contact support.
+            </p>
+          ) : quote && quote.fee > 0 ? (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <p className="text-sm text-yellow-800">
+                A driver has already been assigned. Cancelling now incurs a fee of{" "}
+                <span className="font-semibold">R{quote.fee.toFixed(2)}</span>.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">No cancellation fee applies.</p>
+          )}
+
+          <Textarea
+            placeholder="Why are you cancelling? (required)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Keep Request
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelRequestMutation.mutate({ reason: reason.trim() })}
+              disabled={cancelRequestMutation.isPending || !reason.trim() || !quote?.cancellable}
+            >
+              {cancelRequestMutation.isPending ? "Cancelling..." : "Cancel Request"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
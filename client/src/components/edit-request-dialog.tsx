@@ -0,0 +1,414 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cargoCategoryLabels, handlingFlagLabels } from "@/lib/cargo";
+import { Plus, X } from "lucide-react";
+import {
+  clientTransportRequestSchema,
+  CARGO_CATEGORIES,
+  HANDLING_FLAGS,
+  type TransportRequest,
+  type CargoCategory,
+  type HandlingFlag,
+  type BiddingMode,
+} from "@shared/schema";
+
+interface EditRequestDialogProps {
+  request: TransportRequest;
+  onClose: () => void;
+}
+
+export function EditRequestDialog({ request, onClose }: EditRequestDialogProps) {
+  const { toast } = useToast();
+  const [isMultipleStops, setIsMultipleStops] = useState(request.isMultipleStops);
+  const [stopLocations, setStopLocations] = useState<string[]>(
+    Array.isArray(request.stopLocations) ? (request.stopLocations as string[]) : [],
+  );
+
+  const form = useForm({
+    resolver: zodResolver(clientTransportRequestSchema),
+    defaultValues: {
+      pickupLocation: request.pickupLocation,
+      deliveryLocation: request.deliveryLocation,
+      pickupDate: format(new Date(request.pickupDate), "yyyy-MM-dd"),
+      pickupTime: format(new Date(request.pickupDate), "HH:mm"),
+      deliveryDate: format(new Date(request.deliveryDate), "yyyy-MM-dd"),
+      deliveryTime: format(new Date(request.deliveryDate), "HH:mm"),
+      itemDescription: request.itemDescription,
+      weight: request.weight,
+      lengthCm: request.lengthCm?.toString() || "",
+      widthCm: request.widthCm?.toString() || "",
+      heightCm: request.heightCm?.toString() || "",
+      quantity: request.quantity.toString(),
+      cargoCategory: request.cargoCategory as CargoCategory,
+      handlingFlags: (Array.isArray(request.handlingFlags) ? request.handlingFlags : []) as HandlingFlag[],
+      budget: request.budget ?? "",
+      isMultipleStops: request.isMultipleStops,
+      stopLocations: [] as string[],
+      biddingClosesAt: request.biddingClosesAt ? format(new Date(request.biddingClosesAt), "yyyy-MM-dd'T'HH:mm") : "",
+      autoAward: request.autoAward,
+      biddingMode: request.biddingMode as BiddingMode,
+      minBidDecrement: request.minBidDecrement ?? "",
+    },
+  });
+
+  const updateRequestMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("PATCH", `/api/transport-requests/${request.id}`, data);
+      return response.json();
+    },
+    onSuccess: (updatedRequest) => {
+      toast({
+        title: "Success",
+        description: updatedRequest.invalidatedBids > 0
+          ? `Request updated. ${updatedRequest.invalidatedBids} existing bid(s) were withdrawn and the drivers notified.`
+          : "Request updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: any) => {
+    updateRequestMutation.mutate({
+      ...data,
+      weight: parseFloat(data.weight),
+      lengthCm: parseInt(data.lengthCm),
+      widthCm: parseInt(data.widthCm),
+      heightCm: parseInt(data.heightCm),
+      quantity: parseInt(data.quantity),
+      budget: parseFloat(data.budget),
+      minBidDecrement: data.minBidDecrement ? parseFloat(data.minBidDecrement) : undefined,
+      stopLocations: isMultipleStops ? stopLocations : [],
+      isMultipleStops,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Request REQ-{request.id}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">
+          Changing the route, dates or cargo withdraws existing bids so drivers can re-quote.
+        </p>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="pickupLocation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pickup Location</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="deliveryLocation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Delivery Location</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+              <Switch
+                checked={isMultipleStops}
+                onCheckedChange={(checked) => {
+                  setIsMultipleStops(checked);
+                  if (!checked) {
+                    setStopLocations([]);
+                  }
+                }}
+              />
+              <label className="text-sm font-medium text-gray-900">Multiple Stops</label>
+            </div>
+
+            {isMultipleStops && (
+              <div className="space-y-2">
+                {stopLocations.map((location, index) => (
+                  <div key={index} className="flex items-center space-x-3">
+                    <Input
+                      className="flex-1"
+                      placeholder={`Stop ${index + 1} address`}
+                      value={location}
+                      onChange={(e) => setStopLocations(stopLocations.map((stop, i) => (i === index ? e.target.value : stop)))}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStopLocations(stopLocations.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setStopLocations([...stopLocations, ""])}
+                  className="flex items-center space-x-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Stop</span>
+                </Button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              {([
+                ["pickupDate", "Pickup Date", "date"],
+                ["pickupTime", "Pickup Time", "time"],
+                ["deliveryDate", "Delivery Date", "date"],
+                ["deliveryTime", "Delivery Time", "time"],
+              ] as const).map(([name, label, type]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type={type} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="itemDescription"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Item Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              {([
+                ["weight", "Weight (kg)", "0.01"],
+                ["quantity", "Packages", "1"],
+                ["budget", "Budget (R)", "0.01"],
+              ] as const).map(([name, label, step]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={step} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Package Dimensions (cm, per package)</p>
+              <div className="grid grid-cols-3 gap-4">
+                {([
+                  ["lengthCm", "Length"],
+                  ["widthCm", "Width"],
+                  ["heightCm", "Height"],
+                ] as const).map(([name, label]) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" step="1" min="1" placeholder={label} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="cargoCategory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cargo Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CARGO_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>{cargoCategoryLabels[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="handlingFlags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Handling Requirements</FormLabel>
+                    <div className="grid grid-cols-1 gap-2">
+                      {HANDLING_FLAGS.map((flag) => (
+                        <label key={flag} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(flag)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, flag]
+                                  : field.value.filter((value: HandlingFlag) => value !== flag),
+                              )
+                            }
+                          />
+                          <span>{handlingFlagLabels[flag]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="biddingMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bidding Mode</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="sealed">Sealed bids</SelectItem>
+                        <SelectItem value="open_auction">Open auction (drivers see the lowest bid)</SelectItem>
+                        <SelectItem value="fixed_price">Fixed price (first eligible driver books at your budget)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.watch("biddingMode") === "open_auction" && (
+                <FormField
+                  control={form.control}
+                  name="minBidDecrement"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Bid Decrement (R)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0.01" placeholder="10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="biddingClosesAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bidding Closes (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.watch("biddingMode") !== "fixed_price" && (
+                <FormField
+                  control={form.control}
+                  name="autoAward"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-3 md:pt-8">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel className="!mt-0">Auto-accept the lowest qualifying bid</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateRequestMutation.isPending}>
+                {updateRequestMutation.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
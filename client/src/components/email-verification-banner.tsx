@@ -0,0 +1,53 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Mail } from "lucide-react";
+
+interface EmailVerificationBannerProps {
+  email: string;
+}
+
+export function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/verify-email/resend");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Email sent",
+        description: `We sent a new verification link to ${email}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to send verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <div className="flex items-center space-x-3">
+        <Mail className="h-5 w-5 text-yellow-700 flex-shrink-0" />
+        <p className="text-sm text-yellow-800">
+          Please verify your email address ({email}) to create requests and submit bids.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending}
+        className="border-yellow-300 text-yellow-800 hover:bg-yellow-100"
+      >
+        {resendMutation.isPending ? "Sending..." : "Resend Email"}
+      </Button>
+    </div>
+  );
+}
@@ -3,9 +3,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
-import { MapPin, Navigation, Truck, Battery, Clock } from "lucide-react";
+import { useGpsSync } from "@/hooks/useGpsSync";
+import { MapPin, Navigation, Truck, Battery, Clock, CloudOff, AlertTriangle } from "lucide-react";
+import type { GpsTrackingStatus } from "@shared/schema";
 
 interface GpsTrackerProps {
   requestId: number;
@@ -19,31 +19,14 @@ export function GpsTracker({ requestId, driverId, isDriver = false }: GpsTracker
     longitude: number;
     accuracy: number;
   } | null>(null);
-  const [status, setStatus] = useState<string>("en_route");
+  const [status, setStatus] = useState<GpsTrackingStatus>("en_route");
   const [battery, setBattery] = useState<number>(100);
   const [speed, setSpeed] = useState<number>(0);
   const [heading, setHeading] = useState<number>(0);
   const [isTracking, setIsTracking] = useState(false);
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const watchId = useRef<number | null>(null);
   const { toast } = useToast();
-
-  const trackingMutation = useMutation({
-    mutationFn: async (trackingData: any) => {
-      return await apiRequest("POST", "/api/gps-tracking", trackingData);
-    },
-    onSuccess: () => {
-      setLastUpdate(new Date());
-    },
-    onError: (error) => {
-      console.error("Error sending GPS data:", error);
-      toast({
-        title: "Tracking Error",
-        description: "Failed to update location",
-        variant: "destructive",
-      });
-    },
-  });
+  const { pendingCount, lastSyncedAt, rejectedCount, lastRejection, record } = useGpsSync(driverId);
 
   const startTracking = () => {
     if (!navigator.geolocation) {
@@ -68,17 +51,17 @@ export function GpsTracker({ requestId, driverId, isDriver = false }: GpsTracker
         // Update battery level (simulated since real battery API is limited)
         setBattery(prev => Math.max(prev - 0.1, 0));
 
-        // Send tracking data to server
-        trackingMutation.mutate({
+        // Queued on the device and uploaded when there is signal
+        void record({
           requestId,
-          driverId,
           latitude,
           longitude,
           speed: gpsSpeed ? Math.round(gpsSpeed * 3.6) : null,
-          heading: gpsHeading,
+          heading: gpsHeading !== null && Number.isFinite(gpsHeading) ? gpsHeading : null, // NaN while stationary
           accuracy,
           status,
           batteryLevel: Math.round(battery),
+          recordedAt: new Date(position.timestamp),
         });
       },
       (error) => {
@@ -105,12 +88,11 @@ export function GpsTracker({ requestId, driverId, isDriver = false }: GpsTracker
     setIsTracking(false);
   };
 
-  const updateStatus = (newStatus: string) => {
+  const updateStatus = (newStatus: GpsTrackingStatus) => {
     setStatus(newStatus);
     if (location) {
-      trackingMutation.mutate({
+      void record({
         requestId,
-        driverId,
         latitude: location.latitude,
         longitude: location.longitude,
         speed,
@@ -118,6 +100,7 @@ export function GpsTracker({ requestId, driverId, isDriver = false }: GpsTracker
         accuracy: location.accuracy,
         status: newStatus,
         batteryLevel: Math.round(battery),
+        recordedAt: new Date(),
       });
     }
   };
@@ -259,16 +242,31 @@ export function GpsTracker({ requestId, driverId, isDriver = false }: GpsTracker
           </div>
         </div>
 
+        {lastRejection && (
+          <div className="flex items-start text-sm text-red-700 bg-red-50 p-2 rounded">
+            <AlertTriangle className="mr-2 h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {rejectedCount} point{rejectedCount === 1 ? "" : "s"} rejected. Latest: {lastRejection.message}
+            </span>
+          </div>
+        )}
+
         {/* Device Information */}
         <div className="flex items-center justify-between text-sm text-gray-600 pt-2 border-t">
           <div className="flex items-center">
             <Battery className="mr-1 h-4 w-4" />
             <span>{Math.round(battery)}%</span>
           </div>
-          {lastUpdate && (
+          {pendingCount > 0 && (
+            <div className="flex items-center text-amber-700">
+              <CloudOff className="mr-1 h-4 w-4" />
+              <span>{pendingCount} point{pendingCount === 1 ? "" : "s"} pending sync</span>
+            </div>
+          )}
+          {lastSyncedAt && (
             <div className="flex items-center">
               <Clock className="mr-1 h-4 w-4" />
-              <span>{lastUpdate.toLocaleTimeString()}</span>
+              <span>{lastSyncedAt.toLocaleTimeString()}</span>
             </div>
           )}
         </div>
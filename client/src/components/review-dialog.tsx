@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Star } from "lucide-react";
+import { REVIEW_CATEGORIES, type Review, type ReviewCategory } from "@shared/schema";
+
+interface ReviewDialogProps {
+  requestId: number;
+  reviewee: "driver" | "client"; // clients rating a driver also score each category
+  onClose: () => void;
+}
+
+interface RequestReviews {
+  reviews: Review[];
+  canReview: boolean;
+}
+
+const categoryLabels: Record<ReviewCategory, string> = {
+  punctuality: "Punctuality",
+  care: "Care of goods",
+  communication: "Communication",
+};
+
+function StarInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex space-x-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} star${star > 1 ? "s" : ""}`}>
+          <Star className={`h-6 w-6 ${star <= value ? "text-yellow-500 fill-yellow-500" : "text-gray-300"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ReviewDialog({ requestId, reviewee, onClose }: ReviewDialogProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [categories, setCategories] = useState<Record<ReviewCategory, number>>({ punctuality: 0, care: 0, communication: 0 });
+  const [comment, setComment] = useState("");
+
+  const { data, isLoading } = useQuery<RequestReviews>({
+    queryKey: ["/api/transport-requests", requestId, "reviews"],
+    retry: false,
+  });
+
+  const submitReviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/transport-requests/${requestId}/reviews`, {
+        rating,
+        ...(reviewee === "driver" ? categories : {}),
+        comment: comment.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Thanks for your review",
+        description: `Your rating helps other ${reviewee === "driver" ? "clients choose drivers" : "drivers choose jobs"}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests", requestId, "reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:") ? "You have already reviewed this request" : "Failed to submit review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const categoriesComplete = reviewee === "client" || REVIEW_CATEGORIES.every((category) => categories[category] > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rate the {reviewee} for REQ-{requestId}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : !data?.canReview ? (
+          <p className="text-sm text-gray-600">
+            {data?.reviews.length
+              ? "You have already reviewed this request."
+              : "Reviews open once the delivery is completed."}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Overall</p>
+              <StarInput value={rating} onChange={setRating} />
+            </div>
+
+            {reviewee === "driver" && REVIEW_CATEGORIES.map((category) => (
+              <div key={category}>
+                <p className="text-sm text-gray-600 mb-1">{categoryLabels[category]}</p>
+                <StarInput
+                  value={categories[category]}
+                  onChange={(value) => setCategories({ ...categories, [category]: value })}
+                />
+              </div>
+            ))}
+
+            <Textarea
+              placeholder="Anything others should know? (optional)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={onClose}>
+                Not Now
+              </Button>
+              <Button
+                onClick={() => submitReviewMutation.mutate()}
+                disabled={submitReviewMutation.isPending || rating === 0 || !categoriesComplete}
+              >
+                {submitReviewMutation.isPending ? "Submitting..." : "Submit Review"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { REQUEST_STATUS_LABELS, isRequestStatus } from "@shared/requestStatus";
+import type { RequestStatusHistoryEntry } from "@shared/schema";
+
+interface StatusTimelineProps {
+  requestId: number;
+}
+
+const getStatusDotColor = (status: string) => {
+  switch (status) {
+    case "pending": return "bg-yellow-500";
+    case "assigned": return "bg-blue-500";
+    case "in_progress": return "bg-purple-500";
+    case "completed": return "bg-green-500";
+    case "cancelled": return "bg-red-500";
+    default: return "bg-gray-400";
+  }
+};
+
+const formatActor = (entry: RequestStatusHistoryEntry) => {
+  if (!entry.actorId) return "System";
+  const name = [entry.actorFirstName, entry.actorLastName].filter(Boolean).join(" ");
+  return entry.actorRole ? `${name} (${entry.actorRole})` : name;
+};
+
+export function StatusTimeline({ requestId }: StatusTimelineProps) {
+  const { data: history, isLoading } = useQuery<RequestStatusHistoryEntry[]>({
+    queryKey: ["/api/transport-requests", requestId, "history"],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading timeline...</p>;
+  }
+
+  if (!history || history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-1.5 space-y-3">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${getStatusDotColor(entry.toStatus)}`}></span>
+          <p className="text-sm font-medium text-gray-900">
+            {isRequestStatus(entry.toStatus) ? REQUEST_STATUS_LABELS[entry.toStatus] : entry.toStatus}
+          </p>
+          <p className="text-xs text-gray-500">
+            {new Date(entry.createdAt).toLocaleString()} • {formatActor(entry)}
+          </p>
+          {entry.reason && (
+            <p className="text-xs text-gray-700 mt-1">Reason: {entry.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,10 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { MapPin, Truck, Clock, RefreshCw } from "lucide-react";
-import type { GpsTracking } from "@shared/schema";
+import { useRealtimeTopic } from "@/hooks/useRealtimeTopic";
+import { trackingTopic, type LocationUpdate } from "@shared/realtime";
 
 interface TrackingMapProps {
   requestId: number;
@@ -13,49 +14,20 @@ interface TrackingMapProps {
 }
 
 export function TrackingMap({ requestId, pickupLocation, deliveryLocation }: TrackingMapProps) {
-  const [ws, setWs] = useState<WebSocket | null>(null);
-  const [liveLocation, setLiveLocation] = useState<GpsTracking | null>(null);
+  const [liveLocation, setLiveLocation] = useState<LocationUpdate | null>(null);
 
   const { data: trackingHistory, refetch } = useQuery({
     queryKey: ["/api/gps-tracking", requestId],
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
-  // WebSocket connection for real-time updates
-  useEffect(() => {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const websocket = new WebSocket(wsUrl);
-
-    websocket.onopen = () => {
-      console.log("Connected to tracking WebSocket");
-      websocket.send(JSON.stringify({
-        type: 'subscribe_tracking',
-        requestId: requestId
-      }));
-    };
-
-    websocket.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.type === 'location_update' && data.requestId === requestId) {
-          setLiveLocation(data);
-        }
-      } catch (error) {
-        console.error("Error parsing WebSocket message:", error);
-      }
-    };
-
-    websocket.onclose = () => {
-      console.log("Disconnected from tracking WebSocket");
-    };
-
-    setWs(websocket);
-
-    return () => {
-      websocket.close();
-    };
-  }, [requestId]);
+  // Real-time updates; after a network drop the missed fixes are replayed, or the history reloaded
+  const connection = useRealtimeTopic(trackingTopic(requestId), {
+    onEvent: (event) => {
+      if (event.type === "location_update") setLiveLocation(event.payload);
+    },
+    onResync: () => refetch(),
+  });
 
   const latestLocation = liveLocation || (Array.isArray(trackingHistory) && trackingHistory.length > 0 ? trackingHistory[0] : null);
 
@@ -95,6 +67,12 @@ export function TrackingMap({ requestId, pickupLocation, deliveryLocation }: Tra
           <div className="flex items-center">
             <MapPin className="mr-2 h-5 w-5" />
             Live Tracking
+            {connection === "reconnecting" && (
+              <Badge variant="outline" className="ml-2 text-xs text-amber-700 border-amber-300">Reconnecting...</Badge>
+            )}
+            {connection === "unavailable" && (
+              <Badge variant="outline" className="ml-2 text-xs text-gray-600">Live updates unavailable</Badge>
+            )}
           </div>
           <Button variant="outline" size="sm" onClick={() => refetch()}>
             <RefreshCw className="h-4 w-4" />
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Users, Search, LogOut, Unlock } from "lucide-react";
+import type { User } from "@shared/schema";
+
+type AdminUser = Omit<User, "password">;
+
+interface UserListResponse {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 20;
+
+const getRoleColor = (role: string) => {
+  switch (role) {
+    case "admin": return "bg-purple-100 text-purple-800";
+    case "driver": return "bg-green-100 text-green-800";
+    case "client": return "bg-blue-100 text-blue-800";
+    default: return "bg-gray-100 text-gray-800";
+  }
+};
+
+export function UserManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const currentUserId = (user as User | undefined)?.id;
+
+  const { data, isLoading } = useQuery<UserListResponse>({
+    queryKey: ["/api/admin/users", { search, role: roleFilter, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+        role: roleFilter,
+      });
+      if (search.trim()) params.set("search", search.trim());
+      const response = await apiRequest("GET", `/api/admin/users?${params.toString()}`);
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const userActionMutation = useMutation({
+    mutationFn: async ({ method, url, body }: { method: string; url: string; body?: unknown; successMessage: string }) => {
+      const response = await apiRequest(method, url, body);
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      toast({
+        title: "Success",
+        description: variables.successMessage,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Users className="h-6 w-6" />
+          Manage Users
+        </CardTitle>
+        <p className="text-gray-600">Search accounts, change roles, and deactivate users who have left.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search by name or email"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={roleFilter}
+            onValueChange={(value) => {
+              setRoleFilter(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue placeholder="Filter by role" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Roles</SelectItem>
+              <SelectItem value="client">Clients</SelectItem>
+              <SelectItem value="driver">Drivers</SelectItem>
+              <SelectItem value="admin">Administrators</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs sm:text-sm">Name</TableHead>
+                <TableHead className="text-xs sm:text-sm">Email</TableHead>
+                <TableHead className="text-xs sm:text-sm">Role</TableHead>
+                <TableHead className="text-xs sm:text-sm">Status</TableHead>
+                <TableHead className="text-xs sm:text-sm">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    Loading users...
+                  </TableCell>
+                </TableRow>
+              ) : !data || data.users.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No users found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.users.map((account) => {
+                  const isSelf = account.id === currentUserId;
+                  return (
+                    <TableRow key={account.id}>
+                      <TableCell className="text-xs sm:text-sm font-medium">
+                        {account.firstName} {account.lastName}
+                      </TableCell>
+                      <TableCell className="text-xs sm:text-sm">{account.email}</TableCell>
+                      <TableCell>
+                        {isSelf ? (
+                          <Badge className={getRoleColor(account.role)}>{account.role}</Badge>
+                        ) : (
+                          <Select
+                            value={account.role}
+                            onValueChange={(role) => userActionMutation.mutate({
+                              method: "PATCH",
+                              url: `/api/admin/users/${account.id}/role`,
+                              body: { role },
+                              successMessage: `Role changed to ${role}`,
+                            })}
+                          >
+                            <SelectTrigger className="w-28 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="client">Client</SelectItem>
+                              <SelectItem value="driver">Driver</SelectItem>
+                              <SelectItem value="admin">Admin</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start space-y-1">
+                          <Badge className={account.isActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                            {account.isActive ? "Active" : "Deactivated"}
+                          </Badge>
+                          {!account.emailVerified && (
+                            <Badge variant="outline" className="text-xs">Unverified</Badge>
+                          )}
+                          {account.role === "client" && account.bidApprovalRequired && (
+                            <Badge variant="outline" className="text-xs">Bid approval required</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {!isSelf && (
+                          <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-2">
+                            {account.isActive ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-xs text-red-600 hover:text-red-700"
+                                disabled={userActionMutation.isPending}
+                                onClick={() => userActionMutation.mutate({
+                                  method: "POST",
+                                  url: `/api/admin/users/${account.id}/deactivate`,
+                                  successMessage: "User deactivated",
+                                })}
+                              >
+                                Deactivate
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-xs"
+                                disabled={userActionMutation.isPending}
+                                onClick={() => userActionMutation.mutate({
+                                  method: "POST",
+                                  url: `/api/admin/users/${account.id}/reactivate`,
+                                  successMessage: "User reactivated",
+                                })}
+                              >
+                                Reactivate
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-xs"
+                              disabled={userActionMutation.isPending}
+                              onClick={() => userActionMutation.mutate({
+                                method: "POST",
+                                url: `/api/admin/users/${account.id}/logout`,
+                                successMessage: "User logged out of all sessions",
+                              })}
+                            >
+                              <LogOut className="h-3 w-3 mr-1" />
+                              Log Out
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-xs"
+                              disabled={userActionMutation.isPending}
+                              onClick={() => userActionMutation.mutate({
+                                method: "POST",
+                                url: `/api/admin/users/${account.id}/unlock`,
+                                successMessage: "Login lockout cleared",
+                              })}
+                            >
+                              <Unlock className="h-3 w-3 mr-1" />
+                              Unlock
+                            </Button>
+                            {account.role === "client" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-xs"
+                                disabled={userActionMutation.isPending}
+                                onClick={() => userActionMutation.mutate({
+                                  method: "PATCH",
+                                  url: `/api/admin/users/${account.id}/bid-approval`,
+                                  body: { required: !account.bidApprovalRequired },
+                                  successMessage: account.bidApprovalRequired
+                                    ? "Client can now accept bids directly"
+                                    : "Client bid acceptances now need admin approval",
+                                })}
+                              >
+                                {account.bidApprovalRequired ? "Allow Direct Accept" : "Require Approval"}
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {data ? `${data.total} user${data.total === 1 ? "" : "s"}` : ""}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
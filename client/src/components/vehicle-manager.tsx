@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Truck, Plus, Pencil, Trash2 } from "lucide-react";
+import { vehicleSchema, VEHICLE_TYPES, type Vehicle, type VehicleType } from "@shared/schema";
+
+export const vehicleTypeLabels: Record<VehicleType, string> = {
+  bakkie: "Bakkie",
+  panel_van: "Panel Van",
+  light_truck: "Light Truck (up to 4t)",
+  medium_truck: "Medium Truck (4t - 8t)",
+  heavy_truck: "Heavy Truck (8t+)",
+  flatbed: "Flatbed",
+};
+
+export function formatVehicleName(vehicle: Vehicle): string {
+  return `${vehicle.make} ${vehicle.model} - ${vehicle.licensePlate}`;
+}
+
+const emptyVehicle = {
+  type: "panel_van" as VehicleType,
+  make: "",
+  model: "",
+  licensePlate: "",
+  maxPayloadKg: "",
+  volumeM3: "",
+  loadLengthCm: "",
+  loadWidthCm: "",
+  loadHeightCm: "",
+  colour: "",
+  hasTailLift: false,
+  isRefrigerated: false,
+};
+
+export function VehicleManager() {
+  const { toast } = useToast();
+  const [editingVehicleId, setEditingVehicleId] = useState<number | "new" | null>(null);
+
+  const { data: vehicles, isLoading } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+    retry: false,
+  });
+
+  const form = useForm({
+    resolver: zodResolver(vehicleSchema),
+    defaultValues: emptyVehicle,
+  });
+
+  const saveVehicleMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = editingVehicleId === "new"
+        ? await apiRequest("POST", "/api/vehicles", data)
+        : await apiRequest("PATCH", `/api/vehicles/${editingVehicleId}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Vehicle saved successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+      setEditingVehicleId(null);
+      form.reset(emptyVehicle);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save vehicle",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteVehicleMutation = useMutation({
+    mutationFn: async (vehicleId: number) => {
+      const response = await apiRequest("DELETE", `/api/vehicles/${vehicleId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Vehicle removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove vehicle",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (vehicle: Vehicle) => {
+    setEditingVehicleId(vehicle.id);
+    form.reset({
+      type: vehicle.type as VehicleType,
+      make: vehicle.make,
+      model: vehicle.model,
+      licensePlate: vehicle.licensePlate,
+      maxPayloadKg: vehicle.maxPayloadKg,
+      volumeM3: vehicle.volumeM3 || "",
+      loadLengthCm: vehicle.loadLengthCm?.toString() || "",
+      loadWidthCm: vehicle.loadWidthCm?.toString() || "",
+      loadHeightCm: vehicle.loadHeightCm?.toString() || "",
+      colour: vehicle.colour || "",
+      hasTailLift: vehicle.hasTailLift,
+      isRefrigerated: vehicle.isRefrigerated,
+    });
+  };
+
+  const startAdding = () => {
+    setEditingVehicleId("new");
+    form.reset(emptyVehicle);
+  };
+
+  const onSubmit = (data: any) => {
+    saveVehicleMutation.mutate(data);
+  };
+
+  return (
+    <div className="bg-blue-50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-semibold text-blue-900">
+          Vehicle Information
+        </h4>
+        {editingVehicleId === null && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={startAdding}
+            className="flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Vehicle</span>
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-blue-700">Loading vehicles...</p>
+      ) : Array.isArray(vehicles) && vehicles.length === 0 && editingVehicleId === null ? (
+        <div className="text-center py-6">
+          <Truck className="h-10 w-10 text-blue-300 mx-auto mb-2" />
+          <p className="text-sm text-blue-700">No vehicles registered yet</p>
+          <p className="text-xs text-blue-500">Add a vehicle so clients know what you can carry</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {vehicles?.map((vehicle) => (
+            <div key={vehicle.id} className="bg-white border border-blue-100 rounded-lg p-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-medium text-gray-900">{formatVehicleName(vehicle)}</p>
+                  <p className="text-sm text-gray-600">
+                    {vehicleTypeLabels[vehicle.type as VehicleType] || vehicle.type}
+                    {vehicle.colour ? ` • ${vehicle.colour}` : ""}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Max payload: {Number(vehicle.maxPayloadKg).toLocaleString()} kg
+                    {vehicle.volumeM3 ? ` • ${Number(vehicle.volumeM3)} m³` : ""}
+                  </p>
+                  {vehicle.loadLengthCm && vehicle.loadWidthCm && vehicle.loadHeightCm && (
+                    <p className="text-sm text-gray-600">
+                      Load bay: {vehicle.loadLengthCm} × {vehicle.loadWidthCm} × {vehicle.loadHeightCm} cm
+                    </p>
+                  )}
+                  <div className="flex space-x-2 mt-2">
+                    {vehicle.hasTailLift && <Badge className="bg-blue-100 text-blue-800">Tail-lift</Badge>}
+                    {vehicle.isRefrigerated && <Badge className="bg-cyan-100 text-cyan-800">Refrigerated</Badge>}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => startEditing(vehicle)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteVehicleMutation.mutate(vehicle.id)}
+                    disabled={deleteVehicleMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingVehicleId !== null && (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="mt-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">Vehicle Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select vehicle type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VEHICLE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{vehicleTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="licensePlate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">License Plate</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., CA 123-456" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="make"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">Make</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Ford" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">Model</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Transit" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxPayloadKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">Max Payload (kg)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="volumeM3"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">Load Volume (m³)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="Optional" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="colour"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-blue-700">Vehicle Colour</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., White" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-blue-700 mb-2">Load Bay Dimensions (cm)</p>
+              <div className="grid grid-cols-3 gap-4">
+                {([
+                  ["loadLengthCm", "Length"],
+                  ["loadWidthCm", "Width"],
+                  ["loadHeightCm", "Height"],
+                ] as const).map(([name, label]) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" step="1" placeholder={label} {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:space-x-6 space-y-3 sm:space-y-0">
+              <FormField
+                control={form.control}
+                name="hasTailLift"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="text-blue-700">Tail-lift</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isRefrigerated"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="text-blue-700">Refrigerated</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setEditingVehicleId(null);
+                  form.reset(emptyVehicle);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveVehicleMutation.isPending}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {saveVehicleMutation.isPending ? "Saving..." : "Save Vehicle"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { queryClient } from "@/lib/queryClient";
+import { useRealtimeTopic } from "@/hooks/useRealtimeTopic";
+import { AUCTIONS_TOPIC } from "@shared/realtime";
+
+// Refreshes open-auction standings (and the request list, for deadline extensions) when the server
+// announces a bid change over the /ws socket
+export function useAuctionUpdates(enabled: boolean) {
+  useRealtimeTopic(enabled ? AUCTIONS_TOPIC : null, {
+    onEvent: (event) => {
+      if (event.type !== "auction_update") return;
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests", event.payload.requestId, "auction"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"], exact: true });
+    },
+    // Updates were missed while offline, so every auction standing may be stale
+    onResync: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+    },
+  });
+}
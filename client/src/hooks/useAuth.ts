@@ -1,4 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function useAuth() {
   const { data: user, isLoading } = useQuery({
@@ -6,9 +8,12 @@ export function useAuth() {
     retry: false,
   });
 
+  const can = (permission: Permission) => hasPermission((user as User | null | undefined)?.role, permission);
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
+    can,
   };
 }
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { countGpsPoints, enqueueGpsPoint, peekGpsPoints, removeGpsPoints, type QueuedGpsPoint } from "@/lib/gpsQueue";
+import { gpsTrackingPointSchema, type GpsTrackingPoint } from "@shared/schema";
+import type { GpsBatchResult, GpsRejection } from "@shared/gpsTracking";
+
+const BATCH_SIZE = 100;
+const RETRY_INTERVAL = 15 * 1000;
+
+type RecordedPoint = Omit<GpsTrackingPoint, "clientPointId">;
+
+// Readings a point can be stored without
+const OPTIONAL_READINGS = ["speed", "heading", "accuracy", "estimatedArrival", "batteryLevel"] as const;
+
+async function uploadPoints(points: GpsTrackingPoint[]): Promise<GpsBatchResult> {
+  const response = await apiRequest("POST", "/api/gps-tracking/batch", { points });
+  return response.json();
+}
+
+const withoutQueueFields = ({ queueId, driverId, ...point }: QueuedGpsPoint): GpsTrackingPoint => point;
+
+// Devices occasionally report readings out of range (a speed spike, a bogus accuracy); those are dropped so the
+// position itself is still accepted
+function withValidReadings<T extends GpsTrackingPoint>(point: T): T {
+  const sanitized = { ...point };
+  for (const field of OPTIONAL_READINGS) {
+    if (!gpsTrackingPointSchema.shape[field].safeParse(sanitized[field]).success) sanitized[field] = null;
+  }
+  return sanitized;
+}
+
+// The server refuses the whole upload when any point is malformed; such a point will never be accepted
+const isInvalidUpload = (error: unknown) => error instanceof Error && error.message.startsWith("400:");
+
+// Every point is queued on the device first and uploaded in batches, so points recorded without signal are sent
+// once the connection returns instead of being lost
+export function useGpsSync(driverId: number) {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const [lastRejection, setLastRejection] = useState<GpsRejection | null>(null);
+  const syncing = useRef(false);
+
+  // Rejected points are dropped from the queue like stored ones; the driver is told why
+  const handleResult = useCallback((result: GpsBatchResult) => {
+    setLastSyncedAt(new Date());
+    if (result.rejected.length === 0) return;
+    setRejectedCount((count) => count + result.rejected.length);
+    const { reason, message } = result.rejected[result.rejected.length - 1];
+    setLastRejection({ reason, message });
+  }, []);
+
+  const refreshPendingCount = useCallback(async () => {
+    try {
+      setPendingCount(await countGpsPoints(driverId));
+    } catch (error) {
+      console.error("Error reading GPS queue:", error);
+    }
+  }, [driverId]);
+
+  // Sends a refused batch's points one by one, so only the malformed ones are discarded. Returns false when a point
+  // could not be sent for another reason; it and the points after it stay queued.
+  const syncIndividually = useCallback(async (batch: QueuedGpsPoint[]) => {
+    for (const point of batch) {
+      try {
+        handleResult(await uploadPoints([withoutQueueFields(point)]));
+      } catch (error) {
+        if (!isInvalidUpload(error)) return false;
+        console.error("Discarding GPS point rejected by the server:", error);
+      }
+      await removeGpsPoints([point.queueId!]);
+    }
+    return true;
+  }, [handleResult]);
+
+  const sync = useCallback(async () => {
+    if (syncing.current) return;
+    syncing.current = true;
+    try {
+      for (;;) {
+        const batch = await peekGpsPoints(driverId, BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        try {
+          handleResult(await uploadPoints(batch.map(withoutQueueFields)));
+        } catch (error) {
+          // Anything but an invalid batch (offline, server error, expired session) is retried later
+          if (!isInvalidUpload(error) || !(await syncIndividually(batch))) break;
+          continue;
+        }
+        await removeGpsPoints(batch.map((point) => point.queueId!));
+      }
+    } catch (error) {
+      console.error("Error syncing GPS points:", error);
+    } finally {
+      syncing.current = false;
+      await refreshPendingCount();
+    }
+  }, [driverId, refreshPendingCount, handleResult, syncIndividually]);
+
+  const record = useCallback(async (recorded: RecordedPoint) => {
+    const point = withValidReadings({ ...recorded, clientPointId: crypto.randomUUID() });
+    try {
+      await enqueueGpsPoint({ ...point, driverId });
+    } catch (error) {
+      // Without IndexedDB (some private browsing modes) the point can only be sent straight away
+      console.error("Error queueing GPS point:", error);
+      await uploadPoints([point])
+        .then(handleResult)
+        .catch((uploadError) => console.error("Error sending GPS point:", uploadError));
+      return;
+    }
+    await refreshPendingCount();
+    void sync();
+  }, [driverId, refreshPendingCount, sync, handleResult]);
+
+  // Points left over from an earlier session are sent as soon as the tracker opens
+  useEffect(() => {
+    void sync();
+    const retry = setInterval(() => void sync(), RETRY_INTERVAL);
+    const onOnline = () => void sync();
+    window.addEventListener("online", onOnline);
+
+    return () => {
+      clearInterval(retry);
+      window.removeEventListener("online", onOnline);
+    };
+  }, [sync]);
+
+  return { pendingCount, lastSyncedAt, rejectedCount, lastRejection, record };
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import { realtimeServerMessageSchema, type RealtimeClientMessage, type RealtimeEvent } from "@shared/realtime";
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+
+export type RealtimeStatus = "connecting" | "live" | "reconnecting" | "unavailable";
+
+interface RealtimeTopicHandlers {
+  onEvent: (event: RealtimeEvent) => void;
+  // Events may have been missed while disconnected and the server could not replay them; reload over HTTP
+  onResync?: () => void;
+}
+
+// Subscribes to one /ws topic, reconnecting with backoff after a drop and resuming from the last event processed
+export function useRealtimeTopic(topic: string | null, handlers: RealtimeTopicHandlers): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>("connecting");
+
+  // Handlers change every render; reading them through a ref keeps the socket open
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!topic) return;
+
+    let websocket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let epoch: string | undefined;
+    let lastSeq: number | undefined;
+    let stopped = false;
+
+    const send = (message: RealtimeClientMessage) => websocket?.send(JSON.stringify(message));
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      websocket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      websocket.onopen = () => {
+        attempts = 0;
+        send({ type: "subscribe", payload: { topic, epoch, lastSeq } });
+      };
+
+      websocket.onmessage = (event) => {
+        let parsed;
+        try {
+          parsed = realtimeServerMessageSchema.safeParse(JSON.parse(event.data));
+        } catch (error) {
+          console.error("Error parsing WebSocket message:", error);
+          return;
+        }
+        if (!parsed.success || parsed.data.topic !== topic) return;
+
+        const message = parsed.data;
+        switch (message.type) {
+          case "subscribed":
+            if (lastSeq !== undefined && !message.payload.resumed) handlersRef.current.onResync?.();
+            epoch = message.payload.epoch;
+            lastSeq = message.seq;
+            setStatus("live");
+            break;
+          case "subscription_error":
+            console.error(`Subscription to ${topic} refused:`, message.payload.message);
+            stopped = true;
+            websocket?.close();
+            setStatus("unavailable");
+            break;
+          default:
+            // Replayed events the client already processed are skipped
+            if (lastSeq !== undefined && message.seq <= lastSeq) return;
+            lastSeq = message.seq;
+            handlersRef.current.onEvent(message);
+        }
+      };
+
+      websocket.onclose = () => {
+        if (stopped) return;
+        setStatus("reconnecting");
+        // Jittered so a server restart isn't met by every client at the same moment
+        const delay = Math.min(MAX_RETRY_DELAY, INITIAL_RETRY_DELAY * 2 ** attempts) * (0.5 + Math.random() / 2);
+        attempts += 1;
+        retryTimer = setTimeout(() => {
+          retryTimer = undefined;
+          connect();
+        }, delay);
+      };
+    };
+
+    // Regaining the network is the likeliest moment to succeed, so skip the rest of the backoff
+    const reconnectNow = () => {
+      if (stopped || retryTimer === undefined) return;
+      clearTimeout(retryTimer);
+      retryTimer = undefined;
+      connect();
+    };
+    window.addEventListener("online", reconnectNow);
+
+    setStatus("connecting");
+    connect();
+
+    return () => {
+      stopped = true;
+      window.removeEventListener("online", reconnectNow);
+      clearTimeout(retryTimer);
+      websocket?.close();
+    };
+  }, [topic]);
+
+  return status;
+}
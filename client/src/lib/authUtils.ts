@@ -1,3 +1,13 @@
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
-}
\ No newline at end of file
+}
+
+// The `message` of an API error response, as thrown by apiRequest ("<status>: <body>")
+export function getServerMessage(error: Error): string | undefined {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    return typeof body?.message === "string" ? body.message : undefined;
+  } catch {
+    return undefined;
+  }
+}
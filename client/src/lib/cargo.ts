@@ -0,0 +1,29 @@
+import type { CargoCategory, HandlingFlag } from "@shared/schema";
+
+export const cargoCategoryLabels: Record<CargoCategory, string> = {
+  general: "General",
+  fragile: "Fragile",
+  perishable: "Perishable",
+  hazardous: "Hazardous",
+  furniture: "Furniture",
+  vehicle: "Vehicle",
+};
+
+export const handlingFlagLabels: Record<HandlingFlag, string> = {
+  keep_upright: "Keep upright",
+  do_not_stack: "Do not stack",
+  refrigeration_required: "Refrigeration required",
+  tail_lift_required: "Tail-lift required",
+  two_person_lift: "Two-person lift",
+};
+
+export function getCargoCategoryColor(category: string): string {
+  switch (category) {
+    case "fragile": return "bg-orange-100 text-orange-800";
+    case "perishable": return "bg-cyan-100 text-cyan-800";
+    case "hazardous": return "bg-red-100 text-red-800";
+    case "furniture": return "bg-amber-100 text-amber-800";
+    case "vehicle": return "bg-indigo-100 text-indigo-800";
+    default: return "bg-gray-100 text-gray-800";
+  }
+}
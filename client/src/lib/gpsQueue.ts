@@ -0,0 +1,72 @@
+import type { GpsTrackingPoint } from "@shared/schema";
+
+// GPS points waiting to be uploaded, kept in IndexedDB so points recorded without signal survive reloads.
+// Points are stored per driver, since a shared device may be used by someone else after logging out.
+
+const DB_NAME = "mytransporter";
+const DB_VERSION = 1;
+const STORE = "gps_queue";
+
+export type QueuedGpsPoint = GpsTrackingPoint & {
+  queueId?: number; // assigned by IndexedDB in insertion order
+  driverId: number;
+};
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "queueId", autoIncrement: true });
+        store.createIndex("driverId", "driverId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = undefined;
+    });
+  }
+  return database;
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function enqueueGpsPoint(point: QueuedGpsPoint): Promise<void> {
+  const transaction = (await openDatabase()).transaction(STORE, "readwrite");
+  transaction.objectStore(STORE).add(point);
+  await completion(transaction);
+}
+
+// Oldest first, as the server expects them
+export async function peekGpsPoints(driverId: number, limit: number): Promise<QueuedGpsPoint[]> {
+  const index = (await openDatabase()).transaction(STORE).objectStore(STORE).index("driverId");
+  return result(index.getAll(driverId, limit));
+}
+
+export async function removeGpsPoints(queueIds: number[]): Promise<void> {
+  const transaction = (await openDatabase()).transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  queueIds.forEach((queueId) => store.delete(queueId));
+  await completion(transaction);
+}
+
+export async function countGpsPoints(driverId: number): Promise<number> {
+  const index = (await openDatabase()).transaction(STORE).objectStore(STORE).index("driverId");
+  return result(index.count(driverId));
+}
@@ -10,14 +10,21 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Truck, Bell, User, LogOut, ClipboardList, Users, Clock, CheckCircle, Download, UserPlus, RefreshCw, MapPin, BarChart, TrendingUp, DollarSign, Activity, Calendar } from "lucide-react";
+import { Truck, Bell, User, LogOut, ClipboardList, Users, Clock, CheckCircle, Download, UserPlus, RefreshCw, MapPin, BarChart, Settings } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type TransportRequest, type Bid, registerUserSchema } from "@shared/schema";
+import { type TransportRequest, type Bid, type User as AppUser, type Vehicle, type VehicleType, registerUserSchema } from "@shared/schema";
+import { getAvailableTransitions } from "@shared/requestStatus";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { TrackingMap } from "@/components/tracking-map";
 import BidModal from "@/components/bid-modal";
+import { UserManagement } from "@/components/user-management";
+import { BidScoringSettings } from "@/components/bid-scoring-settings";
+import { AnalyticsDashboard } from "@/components/analytics-dashboard";
+import { StatusTimeline } from "@/components/status-timeline";
+import { vehicleTypeLabels } from "@/components/vehicle-manager";
 
 const getStatusColor = (status: string) => {
   switch (status) {
@@ -31,7 +38,7 @@ const getStatusColor = (status: string) => {
 };
 
 export default function AdminDashboard() {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, can } = useAuth();
   const { toast } = useToast();
   const [selectedRequestId, setSelectedRequestId] = useState<number | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -39,6 +46,7 @@ export default function AdminDashboard() {
   const [selectedTrackingRequest, setSelectedTrackingRequest] = useState<TransportRequest | null>(null);
   const [selectedDriverDetails, setSelectedDriverDetails] = useState<any>(null);
   const [selectedReassignRequest, setSelectedReassignRequest] = useState<TransportRequest | null>(null);
+  const [cancellationReason, setCancellationReason] = useState("");
   
   // User registration form
   const registerForm = useForm({
@@ -73,14 +81,17 @@ export default function AdminDashboard() {
       const response = await apiRequest("POST", "/api/auth/register", userData);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "Success",
-        description: "User registered successfully",
+        description: data.verificationEmailSent
+          ? "User registered successfully"
+          : "User registered, but the verification email could not be sent. They can resend it after signing in.",
       });
       registerForm.reset();
       // Refresh stats to show updated counts
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -144,8 +155,11 @@ export default function AdminDashboard() {
   // Fetch driver details mutation
   const fetchDriverDetailsMutation = useMutation({
     mutationFn: async (driverId: number) => {
-      const response = await apiRequest("GET", `/api/drivers/${driverId}`);
-      return response.json();
+      const [profile, metrics] = await Promise.all([
+        apiRequest("GET", `/api/drivers/${driverId}`).then((response) => response.json()),
+        apiRequest("GET", `/api/drivers/${driverId}/metrics`).then((response) => response.json()),
+      ]);
+      return { ...profile, metrics };
     },
     onSuccess: (driverData) => {
       setSelectedDriverDetails(driverData);
@@ -157,8 +171,8 @@ export default function AdminDashboard() {
 
   // Update status mutation
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ requestId, status }: { requestId: number; status: string }) => {
-      const response = await apiRequest("PATCH", `/api/transport-requests/${requestId}/status`, { status });
+    mutationFn: async ({ requestId, status, reason }: { requestId: number; status: string; reason?: string }) => {
+      const response = await apiRequest("PATCH", `/api/transport-requests/${requestId}/status`, { status, reason });
       return response.json();
     },
     onSuccess: () => {
@@ -169,6 +183,7 @@ export default function AdminDashboard() {
       queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
       setSelectedTrackingRequest(null);
+      setCancellationReason("");
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -203,8 +218,8 @@ export default function AdminDashboard() {
   });
 
   const assignDriverMutation = useMutation({
-    mutationFn: async ({ requestId, driverId }: { requestId: number; driverId: string }) => {
-      const response = await apiRequest("PATCH", `/api/transport-requests/${requestId}/assign`, { driverId });
+    mutationFn: async ({ requestId, driverId, version }: { requestId: number; driverId: string; version: number }) => {
+      const response = await apiRequest("PATCH", `/api/transport-requests/${requestId}/assign`, { driverId, version });
       return response.json();
     },
     onSuccess: () => {
@@ -227,9 +242,15 @@ export default function AdminDashboard() {
         }, 500);
         return;
       }
+      if (error.message.startsWith("409:")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/bids/request"] });
+      }
       toast({
         title: "Error",
-        description: "Failed to assign driver",
+        description: error.message.startsWith("409:")
+          ? "This request changed while you were reviewing it. The bids have been refreshed."
+          : "Failed to assign driver",
         variant: "destructive",
       });
     },
@@ -240,6 +261,11 @@ export default function AdminDashboard() {
     return request.status === statusFilter;
   }) : [];
 
+  // Status changes the current admin may make from the tracking modal (reassigning has its own modal)
+  const trackingTransitions = selectedTrackingRequest && user
+    ? getAvailableTransitions(selectedTrackingRequest, user as AppUser).filter((status) => status !== "pending")
+    : [];
+
   if (isLoading || statsLoading || requestsLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -293,7 +319,7 @@ export default function AdminDashboard() {
       {/* Dashboard Content */}
       <div className="max-w-7xl mx-auto px-2 sm:px-4 lg:px-8 py-4 sm:py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-4 sm:mb-8">
+          <TabsList className={`grid w-full ${can("settings:manage") ? "grid-cols-4" : "grid-cols-3"} mb-4 sm:mb-8`}>
             <TabsTrigger value="requests" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm">
               <ClipboardList className="h-3 w-3 sm:h-4 sm:w-4" />
               <span className="hidden sm:inline">Request Management</span>
@@ -306,9 +332,16 @@ export default function AdminDashboard() {
             </TabsTrigger>
             <TabsTrigger value="users" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm">
               <UserPlus className="h-3 w-3 sm:h-4 sm:w-4" />
-              <span className="hidden sm:inline">User Registration</span>
+              <span className="hidden sm:inline">User Management</span>
               <span className="sm:hidden">Users</span>
             </TabsTrigger>
+            {can("settings:manage") && (
+              <TabsTrigger value="settings" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm">
+                <Settings className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="hidden sm:inline">Platform Settings</span>
+                <span className="sm:hidden">Settings</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="requests" className="space-y-8">
@@ -387,6 +420,7 @@ export default function AdminDashboard() {
                     <SelectItem value="assigned">Assigned</SelectItem>
                     <SelectItem value="in_progress">In Progress</SelectItem>
                     <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="expired">Expired</SelectItem>
                   </SelectContent>
                 </Select>
                 <Button className="text-xs sm:text-sm">
@@ -425,7 +459,7 @@ export default function AdminDashboard() {
                         <div className="flex justify-between items-center">
                           <span className="text-sm font-medium">R{request.budget}</span>
                           <div className="flex flex-col space-y-1">
-                            {request.status === "pending" && (
+                            {request.status === "pending" && can("bids:view_request") && (
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -451,15 +485,17 @@ export default function AdminDashboard() {
                                   <MapPin className="h-3 w-3 mr-1" />
                                   Track
                                 </Button>
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => setSelectedReassignRequest(request)}
-                                  className="text-xs"
-                                >
-                                  <RefreshCw className="h-3 w-3 mr-1" />
-                                  Reassign
-                                </Button>
+                                {can("requests:reassign") && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setSelectedReassignRequest(request)}
+                                    className="text-xs"
+                                  >
+                                    <RefreshCw className="h-3 w-3 mr-1" />
+                                    Reassign
+                                  </Button>
+                                )}
                               </>
                             )}
                           </div>
@@ -508,7 +544,7 @@ export default function AdminDashboard() {
                           </TableCell>
                           <TableCell>
                             <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-2">
-                              {request.status === "pending" && (
+                              {request.status === "pending" && can("bids:view_request") && (
                                 <Button
                                   variant="outline"
                                   size="sm"
@@ -534,15 +570,17 @@ export default function AdminDashboard() {
                                     <MapPin className="h-3 w-3 mr-1" />
                                     Track
                                   </Button>
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => setSelectedReassignRequest(request)}
-                                    className="text-xs"
-                                  >
-                                    <RefreshCw className="h-3 w-3 mr-1" />
-                                    Reassign
-                                  </Button>
+                                  {can("requests:reassign") && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => setSelectedReassignRequest(request)}
+                                      className="text-xs"
+                                    >
+                                      <RefreshCw className="h-3 w-3 mr-1" />
+                                      Reassign
+                                    </Button>
+                                  )}
                                 </>
                               )}
                             </div>
@@ -559,310 +597,8 @@ export default function AdminDashboard() {
           </TabsContent>
 
           {/* Analytics Dashboard Tab */}
-          <TabsContent value="analytics" className="space-y-4 sm:space-y-8">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-8">
-              
-              {/* Revenue Overview */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <DollarSign className="h-5 w-5" />
-                    Revenue Analytics
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="bg-green-50 p-4 rounded-lg">
-                        <div className="flex items-center gap-2">
-                          <TrendingUp className="h-4 w-4 text-green-600" />
-                          <span className="text-sm text-green-700">Total Revenue</span>
-                        </div>
-                        <p className="text-2xl font-bold text-green-800">R 45,280</p>
-                        <p className="text-sm text-green-600">+12% from last month</p>
-                      </div>
-                      <div className="bg-blue-50 p-4 rounded-lg">
-                        <div className="flex items-center gap-2">
-                          <Activity className="h-4 w-4 text-blue-600" />
-                          <span className="text-sm text-blue-700">Avg Deal Value</span>
-                        </div>
-                        <p className="text-2xl font-bold text-blue-800">R 2,840</p>
-                        <p className="text-sm text-blue-600">+5% from last month</p>
-                      </div>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-2">Revenue by Status</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm text-gray-600">Completed Jobs</span>
-                          <span className="font-medium">R 32,150</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm text-gray-600">In Progress</span>
-                          <span className="font-medium">R 13,130</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Driver Performance */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Users className="h-5 w-5" />
-                    Driver Performance
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="bg-purple-50 p-4 rounded-lg">
-                        <div className="flex items-center gap-2">
-                          <CheckCircle className="h-4 w-4 text-purple-600" />
-                          <span className="text-sm text-purple-700">Top Performer</span>
-                        </div>
-                        <p className="text-lg font-bold text-purple-800">Thato Rasebotsa</p>
-                        <p className="text-sm text-purple-600">★ 4.9 Rating</p>
-                      </div>
-                      <div className="bg-orange-50 p-4 rounded-lg">
-                        <div className="flex items-center gap-2">
-                          <Activity className="h-4 w-4 text-orange-600" />
-                          <span className="text-sm text-orange-700">Completion Rate</span>
-                        </div>
-                        <p className="text-2xl font-bold text-orange-800">94.5%</p>
-                        <p className="text-sm text-orange-600">Above average</p>
-                      </div>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-3">Driver Leaderboard</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center py-1">
-                          <div className="flex items-center gap-2">
-                            <div className="w-6 h-6 bg-yellow-400 rounded-full flex items-center justify-center text-xs font-bold">1</div>
-                            <span className="text-sm">Thato Rasebotsa</span>
-                          </div>
-                          <span className="text-sm font-medium">15 jobs</span>
-                        </div>
-                        <div className="flex justify-between items-center py-1">
-                          <div className="flex items-center gap-2">
-                            <div className="w-6 h-6 bg-gray-400 rounded-full flex items-center justify-center text-xs font-bold">2</div>
-                            <span className="text-sm">Driver User</span>
-                          </div>
-                          <span className="text-sm font-medium">12 jobs</span>
-                        </div>
-                        <div className="flex justify-between items-center py-1">
-                          <div className="flex items-center gap-2">
-                            <div className="w-6 h-6 bg-amber-600 rounded-full flex items-center justify-center text-xs font-bold">3</div>
-                            <span className="text-sm">John Mathe</span>
-                          </div>
-                          <span className="text-sm font-medium">9 jobs</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Request Analytics */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <BarChart className="h-5 w-5" />
-                    Request Analytics
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="text-center p-3 bg-blue-50 rounded-lg">
-                        <div className="text-2xl font-bold text-blue-800">{(stats as any)?.totalRequests || 0}</div>
-                        <div className="text-sm text-blue-600">Total Requests</div>
-                      </div>
-                      <div className="text-center p-3 bg-green-50 rounded-lg">
-                        <div className="text-2xl font-bold text-green-800">{Math.floor(((stats as any)?.totalRequests - (stats as any)?.pendingApproval) / (stats as any)?.totalRequests * 100) || 0}%</div>
-                        <div className="text-sm text-green-600">Success Rate</div>
-                      </div>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-3">Status Breakdown</h4>
-                      <div className="space-y-2">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <div className="w-3 h-3 bg-yellow-400 rounded-full"></div>
-                            <span className="text-sm">Pending</span>
-                          </div>
-                          <span className="text-sm font-medium">{(stats as any)?.pendingApproval || 0}</span>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <div className="w-3 h-3 bg-blue-400 rounded-full"></div>
-                            <span className="text-sm">Assigned</span>
-                          </div>
-                          <span className="text-sm font-medium">{filteredRequests.filter((r: TransportRequest) => r.status === "assigned").length}</span>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <div className="w-3 h-3 bg-purple-400 rounded-full"></div>
-                            <span className="text-sm">In Progress</span>
-                          </div>
-                          <span className="text-sm font-medium">{filteredRequests.filter((r: TransportRequest) => r.status === "in_progress").length}</span>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <div className="w-3 h-3 bg-green-400 rounded-full"></div>
-                            <span className="text-sm">Completed</span>
-                          </div>
-                          <span className="text-sm font-medium">{filteredRequests.filter((r: TransportRequest) => r.status === "completed").length}</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Geographic Analytics */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <MapPin className="h-5 w-5" />
-                    Geographic Insights
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-3">Popular Routes</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center py-1">
-                          <span className="text-sm">Johannesburg → Cape Town</span>
-                          <span className="text-sm font-medium">8 requests</span>
-                        </div>
-                        <div className="flex justify-between items-center py-1">
-                          <span className="text-sm">Durban → Pretoria</span>
-                          <span className="text-sm font-medium">6 requests</span>
-                        </div>
-                        <div className="flex justify-between items-center py-1">
-                          <span className="text-sm">Cape Town → Port Elizabeth</span>
-                          <span className="text-sm font-medium">4 requests</span>
-                        </div>
-                      </div>
-                    </div>
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="text-center p-3 bg-indigo-50 rounded-lg">
-                        <div className="text-xl font-bold text-indigo-800">1,247 km</div>
-                        <div className="text-sm text-indigo-600">Avg Distance</div>
-                      </div>
-                      <div className="text-center p-3 bg-pink-50 rounded-lg">
-                        <div className="text-xl font-bold text-pink-800">R 2.85/km</div>
-                        <div className="text-sm text-pink-600">Avg Rate</div>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Time-based Analytics */}
-              <Card className="lg:col-span-2">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Calendar className="h-5 w-5" />
-                    Time-Based Analytics
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-3">Peak Hours</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">8:00 - 10:00</span>
-                          <span className="text-sm font-medium">32 requests</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">14:00 - 16:00</span>
-                          <span className="text-sm font-medium">28 requests</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">10:00 - 12:00</span>
-                          <span className="text-sm font-medium">24 requests</span>
-                        </div>
-                      </div>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-3">Weekly Trends</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Monday</span>
-                          <span className="text-sm font-medium">18 requests</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Tuesday</span>
-                          <span className="text-sm font-medium">22 requests</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Wednesday</span>
-                          <span className="text-sm font-medium">25 requests</span>
-                        </div>
-                      </div>
-                    </div>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h4 className="font-medium text-gray-900 mb-3">Response Times</h4>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Avg Response</span>
-                          <span className="text-sm font-medium">2.3 hours</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Fastest</span>
-                          <span className="text-sm font-medium">15 minutes</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">Completion Rate</span>
-                          <span className="text-sm font-medium">94.5%</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Performance Metrics */}
-              <Card className="lg:col-span-2">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Activity className="h-5 w-5" />
-                    System Performance Metrics
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                    <div className="text-center p-4 bg-blue-50 rounded-lg">
-                      <div className="text-2xl font-bold text-blue-800">98.7%</div>
-                      <div className="text-sm text-blue-600">System Uptime</div>
-                      <div className="text-xs text-blue-500 mt-1">Last 30 days</div>
-                    </div>
-                    <div className="text-center p-4 bg-green-50 rounded-lg">
-                      <div className="text-2xl font-bold text-green-800">1.2s</div>
-                      <div className="text-sm text-green-600">Avg Load Time</div>
-                      <div className="text-xs text-green-500 mt-1">Page response</div>
-                    </div>
-                    <div className="text-center p-4 bg-purple-50 rounded-lg">
-                      <div className="text-2xl font-bold text-purple-800">847</div>
-                      <div className="text-sm text-purple-600">Active Users</div>
-                      <div className="text-xs text-purple-500 mt-1">Last 7 days</div>
-                    </div>
-                    <div className="text-center p-4 bg-orange-50 rounded-lg">
-                      <div className="text-2xl font-bold text-orange-800">4.8</div>
-                      <div className="text-sm text-orange-600">User Rating</div>
-                      <div className="text-xs text-orange-500 mt-1">Platform average</div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-            </div>
+          <TabsContent value="analytics">
+            <AnalyticsDashboard />
           </TabsContent>
 
           <TabsContent value="users" className="space-y-8">
@@ -950,7 +686,7 @@ export default function AdminDashboard() {
                             <SelectContent>
                               <SelectItem value="client">Client</SelectItem>
                               <SelectItem value="driver">Driver</SelectItem>
-                              {(user as any)?.role === "admin" && (
+                              {can("users:manage") && (
                                 <SelectItem value="admin">Administrator</SelectItem>
                               )}
                             </SelectContent>
@@ -973,7 +709,15 @@ export default function AdminDashboard() {
                 </Form>
               </CardContent>
             </Card>
+
+            {can("users:manage") && <UserManagement />}
           </TabsContent>
+
+          {can("settings:manage") && (
+            <TabsContent value="settings" className="space-y-8">
+              <BidScoringSettings />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
       
@@ -981,7 +725,7 @@ export default function AdminDashboard() {
         <BidModal
           requestId={selectedRequestId}
           onClose={() => setSelectedRequestId(null)}
-          onSelectDriver={(driverId) => assignDriverMutation.mutate({ requestId: selectedRequestId, driverId })}
+          onSelectDriver={(driverId, version) => assignDriverMutation.mutate({ requestId: selectedRequestId, driverId, version })}
         />
       )}
 
@@ -994,6 +738,7 @@ export default function AdminDashboard() {
               <Button variant="ghost" size="sm" onClick={() => {
                 setSelectedTrackingRequest(null);
                 setSelectedDriverDetails(null);
+                setCancellationReason("");
               }}>
                 ×
               </Button>
@@ -1024,10 +769,13 @@ export default function AdminDashboard() {
                           </div>
                           <div className="text-right">
                             <p className="text-sm font-medium text-green-600">
-                              ★ {selectedDriverDetails.rating || '4.5'}/5
+                              {selectedDriverDetails.rating?.average != null
+                                ? `★ ${selectedDriverDetails.rating.average.toFixed(1)}/5`
+                                : "No ratings yet"}
                             </p>
                             <p className="text-xs text-gray-500">
-                              {selectedDriverDetails.completedJobs || 24} jobs completed
+                              {selectedDriverDetails.metrics.completedJobs} jobs completed
+                              {selectedDriverDetails.metrics.onTimeRate !== null && ` · ${selectedDriverDetails.metrics.onTimeRate}% on time`}
                             </p>
                           </div>
                         </div>
@@ -1043,22 +791,24 @@ export default function AdminDashboard() {
                           </div>
                         </div>
                         
-                        {selectedDriverDetails.vehicleType && (
+                        {Array.isArray(selectedDriverDetails.vehicles) && selectedDriverDetails.vehicles.length > 0 && (
                           <div className="border-t pt-2">
                             <p className="text-sm text-gray-600">Vehicle Details</p>
-                            <div className="flex justify-between items-center">
-                              <p className="text-sm font-medium">
-                                {selectedDriverDetails.vehicleType} ({selectedDriverDetails.vehicleModel || 'N/A'})
-                              </p>
-                              <p className="text-sm text-gray-600">
-                                Capacity: {selectedDriverDetails.vehicleCapacity || 'N/A'}
-                              </p>
-                            </div>
-                            {selectedDriverDetails.licensePlate && (
-                              <p className="text-xs text-gray-600">
-                                Plate: {selectedDriverDetails.licensePlate}
-                              </p>
-                            )}
+                            {selectedDriverDetails.vehicles.map((vehicle: Vehicle) => (
+                              <div key={vehicle.id}>
+                                <div className="flex justify-between items-center">
+                                  <p className="text-sm font-medium">
+                                    {vehicleTypeLabels[vehicle.type as VehicleType] || vehicle.type} ({vehicle.make} {vehicle.model})
+                                  </p>
+                                  <p className="text-sm text-gray-600">
+                                    Capacity: {Number(vehicle.maxPayloadKg).toLocaleString()} kg
+                                  </p>
+                                </div>
+                                <p className="text-xs text-gray-600">
+                                  Plate: {vehicle.licensePlate}
+                                </p>
+                              </div>
+                            ))}
                           </div>
                         )}
                       </div>
@@ -1073,37 +823,58 @@ export default function AdminDashboard() {
                   </div>
                 </div>
               )}
-              <div className="space-y-2">
-                <p className="text-sm text-gray-600">Update Status</p>
-                <div className="grid grid-cols-2 gap-2">
-                  {selectedTrackingRequest.status === "assigned" && (
-                    <Button
-                      size="sm"
-                      onClick={() => updateStatusMutation.mutate({ requestId: selectedTrackingRequest.id, status: "in_progress" })}
-                      disabled={updateStatusMutation.isPending}
-                    >
-                      Start Journey
-                    </Button>
-                  )}
-                  {selectedTrackingRequest.status === "in_progress" && (
-                    <Button
-                      size="sm"
-                      onClick={() => updateStatusMutation.mutate({ requestId: selectedTrackingRequest.id, status: "completed" })}
-                      disabled={updateStatusMutation.isPending}
-                    >
-                      Mark Complete
-                    </Button>
+              <div>
+                <p className="text-sm text-gray-600 mb-2">Timeline</p>
+                <StatusTimeline requestId={selectedTrackingRequest.id} />
+              </div>
+              {trackingTransitions.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">Update Status</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {trackingTransitions.includes("in_progress") && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateStatusMutation.mutate({ requestId: selectedTrackingRequest.id, status: "in_progress" })}
+                        disabled={updateStatusMutation.isPending}
+                      >
+                        Start Journey
+                      </Button>
+                    )}
+                    {trackingTransitions.includes("completed") && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateStatusMutation.mutate({ requestId: selectedTrackingRequest.id, status: "completed" })}
+                        disabled={updateStatusMutation.isPending}
+                      >
+                        Mark Complete
+                      </Button>
+                    )}
+                  </div>
+                  {trackingTransitions.includes("cancelled") && (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder="Reason for cancelling (required)"
+                        value={cancellationReason}
+                        onChange={(e) => setCancellationReason(e.target.value)}
+                        rows={2}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => updateStatusMutation.mutate({
+                          requestId: selectedTrackingRequest.id,
+                          status: "cancelled",
+                          reason: cancellationReason.trim(),
+                        })}
+                        disabled={updateStatusMutation.isPending || !cancellationReason.trim()}
+                      >
+                        Cancel Request
+                      </Button>
+                    </div>
                   )}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => updateStatusMutation.mutate({ requestId: selectedTrackingRequest.id, status: "cancelled" })}
-                    disabled={updateStatusMutation.isPending}
-                  >
-                    Cancel Request
-                  </Button>
                 </div>
-              </div>
+              )}
             </div>
           </div>
         </div>
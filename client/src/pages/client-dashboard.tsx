@@ -12,11 +12,21 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Truck, Bell, User, LogOut, MapPin, Calendar, Package, Star, Mail, Phone, Plus, X } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { clientTransportRequestSchema, type TransportRequest } from "@shared/schema";
+import { clientTransportRequestSchema, CARGO_CATEGORIES, HANDLING_FLAGS, type TransportRequest, type CargoCategory, type HandlingFlag, type BiddingMode, type User as AppUser } from "@shared/schema";
+import { getAvailableTransitions } from "@shared/requestStatus";
+import { cargoCategoryLabels, handlingFlagLabels } from "@/lib/cargo";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { TrackingMap } from "@/components/tracking-map";
+import { StatusTimeline } from "@/components/status-timeline";
+import { EditRequestDialog } from "@/components/edit-request-dialog";
+import { CancelRequestDialog } from "@/components/cancel-request-dialog";
+import BidModal from "@/components/bid-modal";
+import { ReviewDialog } from "@/components/review-dialog";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
 
 const getStatusColor = (status: string) => {
   switch (status) {
@@ -30,11 +40,18 @@ const getStatusColor = (status: string) => {
 };
 
 export default function ClientDashboard() {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, can } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("requests");
   const [isMultipleStops, setIsMultipleStops] = useState(false);
   const [stopLocations, setStopLocations] = useState<string[]>([]);
+  // Optional pickup pin, used to rank bids by how close each driver is
+  const [pickupPin, setPickupPin] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [expandedTimelineId, setExpandedTimelineId] = useState<number | null>(null);
+  const [editingRequest, setEditingRequest] = useState<TransportRequest | null>(null);
+  const [cancellingRequest, setCancellingRequest] = useState<TransportRequest | null>(null);
+  const [reviewingBidsRequestId, setReviewingBidsRequestId] = useState<number | null>(null);
+  const [ratingRequestId, setRatingRequestId] = useState<number | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -68,10 +85,19 @@ export default function ClientDashboard() {
       deliveryTime: "",
       itemDescription: "",
       weight: "",
-      dimensions: "",
+      lengthCm: "",
+      widthCm: "",
+      heightCm: "",
+      quantity: "1",
+      cargoCategory: "general" as CargoCategory,
+      handlingFlags: [] as HandlingFlag[],
       budget: "",
       isMultipleStops: false,
       stopLocations: [],
+      biddingClosesAt: "",
+      autoAward: false,
+      biddingMode: "sealed" as BiddingMode,
+      minBidDecrement: "",
     },
   });
 
@@ -88,6 +114,7 @@ export default function ClientDashboard() {
       form.reset();
       setIsMultipleStops(false);
       setStopLocations([]);
+      setPickupPin(null);
       queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
     },
     onError: (error) => {
@@ -110,16 +137,77 @@ export default function ClientDashboard() {
     },
   });
 
+  const acceptBidMutation = useMutation({
+    mutationFn: async ({ bidId, version }: { bidId: number; version: number }) => {
+      const response = await apiRequest("POST", `/api/bids/${bidId}/accept`, { version });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Bid accepted",
+        description: result.status === "awaiting_approval"
+          ? "Your choice has been sent to an administrator for approval"
+          : "The driver has been assigned and notified",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bids/request"] });
+      if (result.status === "assigned") {
+        setReviewingBidsRequestId(null);
+      }
+    },
+    onError: (error) => {
+      if (error.message.startsWith("409:")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/bids/request"] });
+      }
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:")
+          ? "This request changed while you were reviewing it. The bids have been refreshed."
+          : "Failed to accept bid",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: any) => {
     createRequestMutation.mutate({
       ...data,
       weight: parseFloat(data.weight),
+      lengthCm: parseInt(data.lengthCm),
+      widthCm: parseInt(data.widthCm),
+      heightCm: parseInt(data.heightCm),
+      quantity: parseInt(data.quantity),
       budget: parseFloat(data.budget),
+      minBidDecrement: data.minBidDecrement ? parseFloat(data.minBidDecrement) : undefined,
       stopLocations: isMultipleStops ? stopLocations : [],
       isMultipleStops,
+      pickupLatitude: pickupPin?.latitude,
+      pickupLongitude: pickupPin?.longitude,
     });
   };
 
+  const pinPickupToCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser doesn't support location services",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => setPickupPin({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => toast({
+        title: "Location unavailable",
+        description: "Allow location access to pin the pickup",
+        variant: "destructive",
+      }),
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  };
+
   const addStopLocation = () => {
     setStopLocations([...stopLocations, ""]);
   };
@@ -186,6 +274,11 @@ export default function ClientDashboard() {
 
       {/* Dashboard Content */}
       <div className="max-w-7xl mx-auto px-2 sm:px-4 lg:px-8 py-4 sm:py-8">
+        {!!user && !(user as any).emailVerified && (
+          <div className="mb-4 sm:mb-6">
+            <EmailVerificationBanner email={(user as any).email} />
+          </div>
+        )}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4 sm:space-y-6">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="requests" className="text-xs sm:text-sm">Transport Requests</TabsTrigger>
@@ -195,6 +288,7 @@ export default function ClientDashboard() {
           <TabsContent value="requests" className="space-y-4 sm:space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-8">
               {/* Request Form */}
+              {can("requests:create") && (
               <div className="lg:col-span-2">
                 <Card>
                   <CardHeader>
@@ -213,6 +307,19 @@ export default function ClientDashboard() {
                             <FormControl>
                               <Input placeholder="Enter pickup address" {...field} />
                             </FormControl>
+                            {pickupPin ? (
+                              <p className="text-xs text-gray-600 flex items-center">
+                                <MapPin className="h-3 w-3 mr-1 text-green-600" />
+                                Pinned at {pickupPin.latitude.toFixed(4)}, {pickupPin.longitude.toFixed(4)}
+                                <button type="button" className="ml-2 text-blue-600 hover:underline" onClick={() => setPickupPin(null)}>
+                                  Remove
+                                </button>
+                              </p>
+                            ) : (
+                              <button type="button" className="text-xs text-blue-600 hover:underline" onClick={pinPickupToCurrentLocation}>
+                                I'm at the pickup — pin my current location
+                              </button>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -382,12 +489,12 @@ export default function ClientDashboard() {
                       />
                       <FormField
                         control={form.control}
-                        name="dimensions"
+                        name="quantity"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Dimensions (LxWxH)</FormLabel>
+                            <FormLabel>Packages</FormLabel>
                             <FormControl>
-                              <Input placeholder="e.g., 2x1x1 meters" {...field} />
+                              <Input type="number" step="1" min="1" placeholder="1" {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -407,6 +514,153 @@ export default function ClientDashboard() {
                         )}
                       />
                     </div>
+
+                    <div>
+                      <p className="text-sm font-medium mb-2">Package Dimensions (cm, per package)</p>
+                      <div className="grid grid-cols-3 gap-4">
+                        {([
+                          ["lengthCm", "Length"],
+                          ["widthCm", "Width"],
+                          ["heightCm", "Height"],
+                        ] as const).map(([name, label]) => (
+                          <FormField
+                            key={name}
+                            control={form.control}
+                            name={name}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" step="1" min="1" placeholder={label} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="cargoCategory"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Cargo Category</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select category" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {CARGO_CATEGORIES.map((category) => (
+                                  <SelectItem key={category} value={category}>{cargoCategoryLabels[category]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="handlingFlags"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Handling Requirements</FormLabel>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                              {HANDLING_FLAGS.map((flag) => (
+                                <label key={flag} className="flex items-center space-x-2 text-sm">
+                                  <Checkbox
+                                    checked={field.value.includes(flag)}
+                                    onCheckedChange={(checked) =>
+                                      field.onChange(
+                                        checked
+                                          ? [...field.value, flag]
+                                          : field.value.filter((value: HandlingFlag) => value !== flag),
+                                      )
+                                    }
+                                  />
+                                  <span>{handlingFlagLabels[flag]}</span>
+                                </label>
+                              ))}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="biddingMode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bidding Mode</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="sealed">Sealed bids</SelectItem>
+                                <SelectItem value="open_auction">Open auction (drivers see the lowest bid)</SelectItem>
+                                <SelectItem value="fixed_price">Fixed price (first eligible driver books at your budget)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {form.watch("biddingMode") === "open_auction" && (
+                        <FormField
+                          control={form.control}
+                          name="minBidDecrement"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Minimum Bid Decrement (R)</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" min="0.01" placeholder="10" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="biddingClosesAt"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bidding Closes (optional)</FormLabel>
+                            <FormControl>
+                              <Input type="datetime-local" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {form.watch("biddingMode") !== "fixed_price" && (
+                        <FormField
+                          control={form.control}
+                          name="autoAward"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center space-x-3 md:pt-8">
+                              <FormControl>
+                                <Switch checked={field.value} onCheckedChange={field.onChange} />
+                              </FormControl>
+                              <FormLabel className="!mt-0">Automatically accept the lowest qualifying bid when bidding closes</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
                     
                     <div className="flex justify-end">
                       <Button type="submit" disabled={createRequestMutation.isPending}>
@@ -418,6 +672,7 @@ export default function ClientDashboard() {
               </CardContent>
             </Card>
           </div>
+          )}
           
           {/* Recent Requests */}
           <div>
@@ -448,6 +703,75 @@ export default function ClientDashboard() {
                         <p className="text-xs text-gray-500 mb-3">
                           Created {new Date(request.createdAt!).toLocaleDateString()}
                         </p>
+
+                        {request.status === 'pending' && request.biddingClosesAt && (
+                          <p className="text-xs text-gray-500 mb-2">
+                            {request.biddingClosedAt ? "Bidding closed" : "Bidding closes"}{" "}
+                            {new Date(request.biddingClosesAt).toLocaleString()}
+                            {request.autoAward && " · lowest qualifying bid is accepted automatically"}
+                          </p>
+                        )}
+                        {request.cancellationFee && (
+                          <p className="text-xs text-red-700 mb-2">
+                            Cancellation fee: R{Number(request.cancellationFee).toFixed(2)}
+                          </p>
+                        )}
+
+                        <div className="flex items-center space-x-3">
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="px-0 h-auto text-xs"
+                            onClick={() => setExpandedTimelineId(expandedTimelineId === request.id ? null : request.id)}
+                          >
+                            {expandedTimelineId === request.id ? "Hide timeline" : "View timeline"}
+                          </Button>
+                          {request.status === 'pending' && can("bids:accept_own") && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0 h-auto text-xs"
+                              onClick={() => setReviewingBidsRequestId(request.id)}
+                            >
+                              Review Bids
+                            </Button>
+                          )}
+                          {request.status === 'pending' && can("requests:edit_own") && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0 h-auto text-xs"
+                              onClick={() => setEditingRequest(request)}
+                            >
+                              Edit
+                            </Button>
+                          )}
+                          {request.status === 'completed' && can("reviews:create") && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0 h-auto text-xs"
+                              onClick={() => setRatingRequestId(request.id)}
+                            >
+                              Rate Driver
+                            </Button>
+                          )}
+                          {!!user && getAvailableTransitions(request, user as AppUser).includes('cancelled') && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0 h-auto text-xs text-red-600"
+                              onClick={() => setCancellingRequest(request)}
+                            >
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                        {expandedTimelineId === request.id && (
+                          <div className="mt-2 mb-3">
+                            <StatusTimeline requestId={request.id} />
+                          </div>
+                        )}
                         
                         {/* Show tracking for assigned/in-progress requests */}
                         {(request.status === 'assigned' || request.status === 'in_progress') && (
@@ -610,6 +934,27 @@ export default function ClientDashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      {editingRequest && (
+        <EditRequestDialog request={editingRequest} onClose={() => setEditingRequest(null)} />
+      )}
+
+      {cancellingRequest && (
+        <CancelRequestDialog request={cancellingRequest} onClose={() => setCancellingRequest(null)} />
+      )}
+
+      {reviewingBidsRequestId !== null && (
+        <BidModal
+          requestId={reviewingBidsRequestId}
+          onClose={() => setReviewingBidsRequestId(null)}
+          onAcceptBid={(bidId, version) => acceptBidMutation.mutate({ bidId, version })}
+          isAccepting={acceptBidMutation.isPending}
+        />
+      )}
+
+      {ratingRequestId !== null && (
+        <ReviewDialog requestId={ratingRequestId} reviewee="driver" onClose={() => setRatingRequestId(null)} />
+      )}
     </div>
   );
 }
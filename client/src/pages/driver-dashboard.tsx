@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useQueries, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,9 +23,21 @@ import {
   MapPin,
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type TransportRequest, type Bid } from "@shared/schema";
+import { ACTIVE_BID_STATUSES, type TransportRequest, type Bid, type CargoCategory, type HandlingFlag, type DriverMetrics } from "@shared/schema";
+import { cargoCategoryLabels, handlingFlagLabels, getCargoCategoryColor } from "@/lib/cargo";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { GpsTracker } from "@/components/gps-tracker";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
+import { VehicleManager } from "@/components/vehicle-manager";
+import { BiddingCountdown } from "@/components/bidding-countdown";
+import { AuctionStanding } from "@/components/auction-standing";
+import { useAuctionUpdates } from "@/hooks/useAuctionUpdates";
+import { ReviewDialog } from "@/components/review-dialog";
+
+// Drivers' feed entries carry whether one of their vehicles can carry the load
+type DriverFeedRequest = TransportRequest & {
+  eligibility?: { eligible: boolean; reason?: string };
+};
 
 const getStatusColor = (status: string) => {
   switch (status) {
@@ -41,11 +53,14 @@ const getStatusColor = (status: string) => {
 };
 
 export default function DriverDashboard() {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, can } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("dashboard");
   const [bidAmounts, setBidAmounts] = useState<{ [key: number]: string }>({});
   const [bidMessages, setBidMessages] = useState<{ [key: number]: string }>({});
+  const [revisingBidId, setRevisingBidId] = useState<number | null>(null);
+  const [revisedAmount, setRevisedAmount] = useState("");
+  const [ratingRequestId, setRatingRequestId] = useState<number | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -74,6 +89,34 @@ export default function DriverDashboard() {
     retry: false,
   });
 
+  // The requests of accepted bids, to offer rating the client once the delivery is completed
+  const acceptedRequests = useQueries({
+    queries: (Array.isArray(myBids) ? myBids : [])
+      .filter((bid: Bid) => bid.status === "accepted")
+      .map((bid: Bid) => ({
+        queryKey: ["/api/transport-requests", bid.requestId],
+        enabled: can("reviews:create"),
+        retry: false,
+      })),
+  });
+  const canRateClient = (requestId: number) =>
+    acceptedRequests.some(({ data }) => {
+      const request = data as TransportRequest | undefined;
+      return request?.id === requestId && request.status === "completed" && request.assignedDriverId === (user as any)?.id;
+    });
+
+  const { data: metrics } = useQuery<DriverMetrics>({
+    queryKey: ["/api/drivers", (user as any)?.id, "metrics"],
+    enabled: !!user,
+    retry: false,
+  });
+
+  const formatRate = (rate: number | null | undefined) => (rate == null ? "–" : `${rate}%`);
+
+  useAuctionUpdates(
+    Array.isArray(requests) && requests.some((request: TransportRequest) => request.biddingMode === "open_auction"),
+  );
+
   const createBidMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest("POST", "/api/bids", data);
@@ -102,7 +145,80 @@ export default function DriverDashboard() {
       }
       toast({
         title: "Error",
-        description: "Failed to submit bid",
+        description: error.message.startsWith("409:")
+          ? "You already have an active bid on this request"
+          : "Failed to submit bid",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviseBidMutation = useMutation({
+    mutationFn: async ({ bidId, amount }: { bidId: number; amount: number }) => {
+      const response = await apiRequest("PATCH", `/api/bids/${bidId}`, { amount });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Bid revised successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/bids/driver"] });
+      setRevisingBidId(null);
+      setRevisedAmount("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revise bid",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const withdrawBidMutation = useMutation({
+    mutationFn: async (bidId: number) => {
+      const response = await apiRequest("POST", `/api/bids/${bidId}/withdraw`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Bid withdrawn",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/bids/driver"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to withdraw bid",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const claimRequestMutation = useMutation({
+    mutationFn: async (requestId: number) => {
+      const response = await apiRequest("POST", `/api/transport-requests/${requestId}/claim`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Request booked",
+        description: "The job is yours. Find it under Active Deliveries.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bids/driver"] });
+    },
+    onError: (error) => {
+      if (error.message.startsWith("409:")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/transport-requests"] });
+      }
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:")
+          ? "Another driver booked this request first"
+          : "Failed to book request",
         variant: "destructive",
       });
     },
@@ -194,6 +310,11 @@ export default function DriverDashboard() {
 
       {/* Dashboard Content */}
       <div className="max-w-7xl mx-auto px-2 sm:px-4 lg:px-8 py-4 sm:py-8">
+        {!!user && !(user as any).emailVerified && (
+          <div className="mb-4 sm:mb-6">
+            <EmailVerificationBanner email={(user as any).email} />
+          </div>
+        )}
         <Tabs
           value={activeTab}
           onValueChange={setActiveTab}
@@ -222,9 +343,10 @@ export default function DriverDashboard() {
                           No available requests
                         </p>
                       ) : Array.isArray(requests) ? (
-                        requests.map((request: TransportRequest) => {
+                        requests.map((request: DriverFeedRequest) => {
                           // Check if driver has already placed a bid on this request
-                          const hasPlacedBid = Array.isArray(myBids) && myBids.some((bid: Bid) => bid.requestId === request.id);
+                          const hasPlacedBid = Array.isArray(myBids) && myBids.some((bid: Bid) => bid.requestId === request.id && (ACTIVE_BID_STATUSES as readonly string[]).includes(bid.status));
+                          const isIneligible = request.eligibility?.eligible === false;
                           
                           return (
                             <div
@@ -246,10 +368,16 @@ export default function DriverDashboard() {
                                       request.pickupDate,
                                     ).toLocaleTimeString()}
                                   </p>
+                                  <BiddingCountdown request={request} />
                                 </div>
                                 <div className="flex space-x-2">
+                                  {request.biddingMode === "fixed_price" && (
+                                    <Badge className="bg-teal-100 text-teal-800">Fixed price · R{request.budget}</Badge>
+                                  )}
                                   {hasPlacedBid ? (
                                     <Badge className="bg-green-100 text-green-800">Already placed a bid</Badge>
+                                  ) : isIneligible ? (
+                                    <Badge className="bg-red-100 text-red-800">Exceeds your vehicle capacity</Badge>
                                   ) : (
                                     <Badge className="bg-yellow-100 text-yellow-800">Open</Badge>
                                   )}
@@ -325,6 +453,21 @@ export default function DriverDashboard() {
                               </div>
                             </div>
 
+                            <div className="flex flex-wrap gap-2 mb-4">
+                              <Badge className={getCargoCategoryColor(request.cargoCategory)}>
+                                {cargoCategoryLabels[request.cargoCategory as CargoCategory] || request.cargoCategory}
+                              </Badge>
+                              {Array.isArray(request.handlingFlags) && (request.handlingFlags as HandlingFlag[]).map((flag) => (
+                                <Badge key={flag} variant="outline">
+                                  {handlingFlagLabels[flag] || flag}
+                                </Badge>
+                              ))}
+                            </div>
+
+                            {request.biddingMode === "open_auction" && (
+                              <AuctionStanding requestId={request.id} />
+                            )}
+
                             <div className="mb-4">
                               <p className="text-sm text-gray-600">
                                 Description
@@ -334,7 +477,32 @@ export default function DriverDashboard() {
                               </p>
                             </div>
 
-                            {!hasPlacedBid && (
+                            {!hasPlacedBid && isIneligible && (
+                              <div className="border-t border-gray-200 pt-4">
+                                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                                  <p className="text-sm text-red-800 font-medium">
+                                    {request.eligibility?.reason || "None of your vehicles can carry this load."}
+                                  </p>
+                                </div>
+                              </div>
+                            )}
+
+                            {request.biddingMode === "fixed_price" && !isIneligible && can("requests:claim") && (
+                              <div className="border-t border-gray-200 pt-4 flex justify-between items-center">
+                                <p className="text-sm text-gray-600">
+                                  No bidding: the first driver to book this job gets it at the listed price.
+                                </p>
+                                <Button
+                                  onClick={() => claimRequestMutation.mutate(request.id)}
+                                  disabled={claimRequestMutation.isPending}
+                                  className="bg-teal-600 hover:bg-teal-700"
+                                >
+                                  {claimRequestMutation.isPending ? "Booking..." : `Book for R${request.budget}`}
+                                </Button>
+                              </div>
+                            )}
+
+                            {!hasPlacedBid && !isIneligible && request.biddingMode !== "fixed_price" && can("bids:create") && (
                               <div className="border-t border-gray-200 pt-4">
                                 <h4 className="font-medium text-gray-900 mb-3">Submit Your Bid</h4>
                                 <div className="mb-3">
@@ -455,6 +623,63 @@ export default function DriverDashboard() {
                               Submitted{" "}
                               {new Date(bid.createdAt!).toLocaleDateString()}
                             </p>
+                            {can("bids:edit_own") && revisingBidId === bid.id ? (
+                              <div className="flex items-center space-x-2 mt-3">
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={revisedAmount}
+                                  onChange={(e) => setRevisedAmount(e.target.value)}
+                                  className="w-28"
+                                />
+                                <Button
+                                  size="sm"
+                                  disabled={reviseBidMutation.isPending || !(parseFloat(revisedAmount) > 0)}
+                                  onClick={() => reviseBidMutation.mutate({ bidId: bid.id, amount: parseFloat(revisedAmount) })}
+                                >
+                                  Save
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => setRevisingBidId(null)}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            ) : can("bids:edit_own") && (bid.status === "pending" || bid.status === "client_selected") && (
+                              <div className="flex items-center space-x-3 mt-2">
+                                {bid.status === "pending" && (
+                                  <Button
+                                    variant="link"
+                                    size="sm"
+                                    className="px-0 h-auto text-xs"
+                                    onClick={() => {
+                                      setRevisingBidId(bid.id);
+                                      setRevisedAmount(bid.amount);
+                                    }}
+                                  >
+                                    Revise
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="px-0 h-auto text-xs text-red-600"
+                                  disabled={withdrawBidMutation.isPending}
+                                  onClick={() => withdrawBidMutation.mutate(bid.id)}
+                                >
+                                  Withdraw
+                                </Button>
+                              </div>
+                            )}
+                            {bid.status === "accepted" && can("reviews:create") && canRateClient(bid.requestId) && (
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="px-0 h-auto text-xs mt-2"
+                                onClick={() => setRatingRequestId(bid.requestId)}
+                              >
+                                Rate Client
+                              </Button>
+                            )}
                           </div>
                         ))
                       ) : (
@@ -539,7 +764,10 @@ export default function DriverDashboard() {
                       <div className="flex items-center mt-2">
                         <Star className="h-4 w-4 text-yellow-500 mr-1" />
                         <span className="text-sm text-gray-600">
-                          4.5/5 rating • Driver since{" "}
+                          {(user as any)?.ratingCount > 0
+                            ? `${Number((user as any).ratingAverage).toFixed(1)}/5 rating (${(user as any).ratingCount} reviews)`
+                            : "No ratings yet"}{" "}
+                          • Driver since{" "}
                           {(user as any)?.createdAt
                             ? new Date((user as any).createdAt).getFullYear()
                             : "2023"}
@@ -592,42 +820,7 @@ export default function DriverDashboard() {
                   </div>
 
                   {/* Vehicle Information - Editable */}
-                  <div className="bg-blue-50 rounded-lg p-6">
-                    <h4 className="font-semibold text-blue-900 mb-4">
-                      Vehicle Information
-                    </h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium text-blue-700">
-                          Vehicle Type
-                        </label>
-                        <Input defaultValue="2019 Ford Transit" />
-                      </div>
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium text-blue-700">
-                          License Plate
-                        </label>
-                        <Input defaultValue="TRK123" />
-                      </div>
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium text-blue-700">
-                          Max Capacity (kg)
-                        </label>
-                        <Input type="number" defaultValue="2500" />
-                      </div>
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium text-blue-700">
-                          Vehicle Color
-                        </label>
-                        <Input defaultValue="White" />
-                      </div>
-                    </div>
-                    <div className="mt-4 flex justify-end">
-                      <Button className="bg-blue-600 hover:bg-blue-700">
-                        Update Profile
-                      </Button>
-                    </div>
-                  </div>
+                  {can("vehicles:manage") && <VehicleManager />}
 
                   {/* Performance Metrics */}
                   <div className="bg-green-50 rounded-lg p-6">
@@ -645,29 +838,42 @@ export default function DriverDashboard() {
                       </div>
                       <div>
                         <p className="text-sm text-green-700 mb-1">
-                          Accepted Bids
+                          Acceptance Rate
+                        </p>
+                        <p className="text-2xl font-bold text-yellow-600">
+                          {formatRate(metrics?.acceptanceRate)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-green-700 mb-1">
+                          Average Bid vs Budget
+                        </p>
+                        <p className="text-2xl font-bold text-green-900">
+                          {formatRate(metrics?.averageBidToBudget)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-green-700 mb-1">
+                          Completed Jobs
                         </p>
                         <p className="text-2xl font-bold text-blue-600">
-                          {Array.isArray(myBids)
-                            ? myBids.filter((b) => b.status === "accepted")
-                                .length
-                            : 0}
+                          {metrics?.completedJobs ?? 0}
                         </p>
                       </div>
                       <div>
                         <p className="text-sm text-green-700 mb-1">
-                          Success Rate
+                          On-Time Delivery
                         </p>
-                        <p className="text-2xl font-bold text-yellow-600">
-                          {Array.isArray(myBids) && myBids.length > 0
-                            ? Math.round(
-                                (myBids.filter((b) => b.status === "accepted")
-                                  .length /
-                                  myBids.length) *
-                                  100,
-                              )
-                            : 0}
-                          %
+                        <p className="text-2xl font-bold text-green-600">
+                          {formatRate(metrics?.onTimeRate)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-green-700 mb-1">
+                          Cancellation Rate
+                        </p>
+                        <p className="text-2xl font-bold text-red-600">
+                          {formatRate(metrics?.cancellationRate)}
                         </p>
                       </div>
                     </div>
@@ -755,6 +961,10 @@ export default function DriverDashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      {ratingRequestId !== null && (
+        <ReviewDialog requestId={ratingRequestId} reviewee="client" onClose={() => setRatingRequestId(null)} />
+      )}
     </div>
   );
 }
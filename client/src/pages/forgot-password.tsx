@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Truck, Mail } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { forgotPasswordSchema } from "@shared/schema";
+import { useLocation } from "wouter";
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [submitted, setSubmitted] = useState(false);
+
+  const form = useForm({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/auth/forgot-password", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("429:")
+          ? "Too many reset requests. Please try again later."
+          : "Failed to send reset link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: any) => {
+    forgotPasswordMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary to-blue-700">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="max-w-md w-full">
+          <Card className="shadow-2xl">
+            <CardHeader className="text-center pb-4 sm:pb-6">
+              <div className="inline-flex items-center justify-center w-12 h-12 sm:w-16 sm:h-16 bg-primary rounded-full mb-3 sm:mb-4 mx-auto">
+                <Truck className="text-white text-xl sm:text-2xl" />
+              </div>
+              <CardTitle className="text-2xl sm:text-3xl font-bold text-gray-900">Forgot Password</CardTitle>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">We'll email you a link to reset your password</p>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6">
+              {submitted ? (
+                <div className="text-center space-y-3">
+                  <Mail className="h-12 w-12 text-blue-600 mx-auto" />
+                  <p className="text-sm text-gray-700">
+                    If an account exists for that email, a reset link is on its way. The link expires in 1 hour.
+                  </p>
+                </div>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="Enter your email"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      disabled={forgotPasswordMutation.isPending}
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+                    >
+                      {forgotPasswordMutation.isPending ? "Sending..." : "Send Reset Link"}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+
+              <div className="mt-6 text-center">
+                <button
+                  onClick={() => navigate("/login")}
+                  className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  Back to Sign In
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
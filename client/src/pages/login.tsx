@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Truck } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getServerMessage } from "@/lib/authUtils";
 import { loginUserSchema } from "@shared/schema";
 import { useLocation } from "wouter";
 
@@ -49,7 +50,11 @@ export default function Login() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Invalid credentials",
+        description: error.message.startsWith("429:")
+          ? "Too many failed login attempts. Please try again later."
+          : error.message.startsWith("403:")
+            ? getServerMessage(error) ?? "Your account has been deactivated"
+            : "Invalid credentials",
         variant: "destructive",
       });
     },
@@ -120,6 +125,15 @@ export default function Login() {
                       </FormItem>
                     )}
                   />
+                  <div className="text-right">
+                    <button
+                      type="button"
+                      onClick={() => navigate("/forgot-password")}
+                      className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
                   <Button
                     type="submit"
                     disabled={loginMutation.isPending}
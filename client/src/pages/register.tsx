@@ -54,10 +54,12 @@ export default function Register() {
       const response = await apiRequest("POST", "/api/auth/register", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "Success",
-        description: "Account created successfully",
+        description: data.verificationEmailSent
+          ? "Account created successfully"
+          : "Account created, but we couldn't send the verification email. Use \"Resend Email\" on your dashboard.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       navigate("/");
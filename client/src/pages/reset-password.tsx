@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Truck, CheckCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { resetPasswordSchema } from "@shared/schema";
+import { useLocation } from "wouter";
+import { z } from "zod";
+
+export default function ResetPassword() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [completed, setCompleted] = useState(false);
+
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const form = useForm({
+    resolver: zodResolver(resetPasswordSchema.extend({
+      confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
+    }).refine((data) => data.password === data.confirmPassword, {
+      message: "Passwords don't match",
+      path: ["confirmPassword"],
+    })),
+    defaultValues: {
+      token,
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/auth/reset-password", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setCompleted(true);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Reset link is invalid or has expired",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: any) => {
+    const { confirmPassword, ...resetData } = data;
+    resetPasswordMutation.mutate(resetData);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary to-blue-700">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="max-w-md w-full">
+          <Card className="shadow-2xl">
+            <CardHeader className="text-center pb-4 sm:pb-6">
+              <div className="inline-flex items-center justify-center w-12 h-12 sm:w-16 sm:h-16 bg-primary rounded-full mb-3 sm:mb-4 mx-auto">
+                <Truck className="text-white text-xl sm:text-2xl" />
+              </div>
+              <CardTitle className="text-2xl sm:text-3xl font-bold text-gray-900">Reset Password</CardTitle>
+              <p className="text-sm sm:text-base text-gray-600 mt-2">Choose a new password for your account</p>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6">
+              {completed ? (
+                <div className="text-center space-y-4">
+                  <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+                  <p className="text-sm text-gray-700">Your password has been reset. You can now sign in.</p>
+                  <Button onClick={() => navigate("/login")} className="w-full bg-blue-600 hover:bg-blue-700">
+                    Sign In
+                  </Button>
+                </div>
+              ) : !token ? (
+                <p className="text-sm text-center text-gray-700">
+                  This reset link is missing its token. Please request a new one.
+                </p>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>New Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder="At least 6 characters" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder="Repeat your new password" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      disabled={resetPasswordMutation.isPending}
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+                    >
+                      {resetPasswordMutation.isPending ? "Resetting..." : "Reset Password"}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+
+              {!completed && (
+                <div className="mt-6 text-center">
+                  <button
+                    onClick={() => navigate("/forgot-password")}
+                    className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+                  >
+                    Request a new link
+                  </button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Truck, CheckCircle, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLocation } from "wouter";
+
+export default function VerifyEmail() {
+  const [, navigate] = useLocation();
+
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: async (data: { token: string }) => {
+      const response = await apiRequest("POST", "/api/auth/verify-email", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      verifyEmailMutation.mutate({ token });
+    }
+  }, [token]);
+
+  const failed = !token || verifyEmailMutation.isError;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary to-blue-700">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="max-w-md w-full">
+          <Card className="shadow-2xl">
+            <CardHeader className="text-center pb-4 sm:pb-6">
+              <div className="inline-flex items-center justify-center w-12 h-12 sm:w-16 sm:h-16 bg-primary rounded-full mb-3 sm:mb-4 mx-auto">
+                <Truck className="text-white text-xl sm:text-2xl" />
+              </div>
+              <CardTitle className="text-2xl sm:text-3xl font-bold text-gray-900">Email Verification</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 text-center space-y-4">
+              {verifyEmailMutation.isSuccess ? (
+                <>
+                  <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+                  <p className="text-sm text-gray-700">Your email address has been verified.</p>
+                </>
+              ) : failed ? (
+                <>
+                  <XCircle className="h-12 w-12 text-red-600 mx-auto" />
+                  <p className="text-sm text-gray-700">
+                    This verification link is invalid or has expired. Sign in to request a new one.
+                  </p>
+                </>
+              ) : (
+                <div className="flex flex-col items-center">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+                  <p className="mt-4 text-gray-600">Verifying...</p>
+                </div>
+              )}
+              {!verifyEmailMutation.isPending && (
+                <Button onClick={() => navigate("/")} className="w-full bg-blue-600 hover:bg-blue-700">
+                  Continue
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
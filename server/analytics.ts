@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import {
+  DEFAULT_ANALYTICS_RANGE_DAYS,
+  type ActivityBreakdown,
+  type AnalyticsQuery,
+  type AnalyticsRange,
+  type AnalyticsSummary,
+} from "@shared/analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Final statuses count towards the completion rate; requests still in flight don't
+const FINAL_STATUSES = ["completed", "cancelled", "expired"];
+
+// Missing bounds default to the last 30 days up to now
+export function resolveAnalyticsRange(query: Pick<AnalyticsQuery, "from" | "to">, now: Date = new Date()): AnalyticsRange {
+  const to = query.to ?? now;
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_DAYS * DAY_MS);
+  return { from, to };
+}
+
+export async function getAnalyticsSummary(range: AnalyticsRange): Promise<AnalyticsSummary> {
+  const previousRange = {
+    from: new Date(range.from.getTime() - (range.to.getTime() - range.from.getTime())),
+    to: range.from,
+  };
+
+  const [revenueByStatus, previousRevenueByStatus, statusBreakdown, averageRating] = await Promise.all([
+    storage.getRevenueByStatus(range),
+    storage.getRevenueByStatus(previousRange),
+    storage.getRequestStatusCounts(range),
+    storage.getAverageReviewRating(range),
+  ]);
+
+  const revenue = revenueByStatus.reduce((sum, row) => sum + row.revenue, 0);
+  const deals = revenueByStatus.reduce((sum, row) => sum + row.deals, 0);
+  const completed = statusBreakdown.find((row) => row.status === "completed")?.count ?? 0;
+  const finished = statusBreakdown
+    .filter((row) => FINAL_STATUSES.includes(row.status))
+    .reduce((sum, row) => sum + row.count, 0);
+
+  return {
+    revenue,
+    previousRevenue: previousRevenueByStatus.reduce((sum, row) => sum + row.revenue, 0),
+    deals,
+    averageDealValue: deals > 0 ? Math.round((revenue / deals) * 100) / 100 : null,
+    revenueByStatus: revenueByStatus.map(({ status, revenue }) => ({ status, revenue })),
+    statusBreakdown,
+    completionRate: finished > 0 ? Math.round((completed / finished) * 1000) / 10 : null,
+    averageRating,
+  };
+}
+
+// Every hour and weekday is listed, with zero where nothing was requested, so charts keep a stable axis
+export async function getActivityBreakdown(range: AnalyticsRange): Promise<ActivityBreakdown> {
+  const [byHour, byWeekday] = await Promise.all([
+    storage.getRequestCountsByHour(range),
+    storage.getRequestCountsByWeekday(range),
+  ]);
+
+  return {
+    hours: Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      requests: byHour.find((row) => row.hour === hour)?.requests ?? 0,
+    })),
+    weekdays: Array.from({ length: 7 }, (_, weekday) => ({
+      weekday,
+      requests: byWeekday.find((row) => row.weekday === weekday)?.requests ?? 0,
+    })),
+  };
+}
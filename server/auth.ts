@@ -1,11 +1,32 @@
-import { createHash } from 'crypto';
-import type { Express, RequestHandler } from "express";
+import { createHash, randomBytes } from "crypto";
+import type { IncomingMessage } from "http";
+import type { Express, Request, RequestHandler, Response } from "express";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
-import { loginUserSchema, registerUserSchema } from "@shared/schema";
+import {
+  loginUserSchema,
+  registerUserSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  type AuthTokenType,
+  type User,
+} from "@shared/schema";
+import { hasPermission, isRole, type Permission } from "@shared/permissions";
+import { hashPassword, verifyPassword, needsRehash } from "./password";
+import { getMailTransport } from "./mail";
+import { getLoginRetryAfter, recordFailedLogin, clearFailedLogins, allowPasswordReset } from "./loginThrottle";
+
+const PASSWORD_RESET_TTL = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+let sessionMiddleware: RequestHandler | undefined;
+
+// One middleware (and session store) per process, shared by HTTP routes and WebSocket upgrades
+export function getSession(): RequestHandler {
+  if (sessionMiddleware) return sessionMiddleware;
 
-export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -14,7 +35,7 @@ export function getSession() {
     ttl: sessionTtl,
     tableName: "sessions",
   });
-  return session({
+  sessionMiddleware = session({
     secret: process.env.SESSION_SECRET || "your-secret-key",
     store: sessionStore,
     resave: false,
@@ -25,29 +46,82 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
+  return sessionMiddleware;
 }
 
-export function hashPassword(password: string): string {
-  return createHash('sha256').update(password).digest('hex');
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
 }
 
-export function verifyPassword(password: string, hash: string): boolean {
-  return hashPassword(password) === hash;
+function getAppUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+async function issueAuthToken(userId: number, type: AuthTokenType, ttl: number): Promise<string> {
+  // Only the most recent link of each type stays valid
+  await storage.invalidateAuthTokens(userId, type);
+
+  const token = randomBytes(32).toString("hex");
+  await storage.createAuthToken({
+    userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttl),
+  });
+  return token;
+}
+
+async function sendVerificationEmail(req: Request, user: User) {
+  const token = await issueAuthToken(user.id, "email_verification", EMAIL_VERIFICATION_TTL);
+  await getMailTransport().send({
+    to: user.email,
+    subject: "Verify your MyTransporter email address",
+    text: `Hi ${user.firstName || "there"},\n\nPlease confirm your email address by opening the link below:\n\n${getAppUrl(req)}/verify-email?token=${token}\n\nThis link expires in 24 hours.`,
+  });
+}
+
+async function sendPasswordResetEmail(req: Request, user: User) {
+  const token = await issueAuthToken(user.id, "password_reset", PASSWORD_RESET_TTL);
+  await getMailTransport().send({
+    to: user.email,
+    subject: "Reset your MyTransporter password",
+    text: `Hi ${user.firstName || "there"},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${getAppUrl(req)}/reset-password?token=${token}\n\nThis link expires in 1 hour. If you did not request a reset you can ignore this email.`,
+  });
 }
 
 export async function setupAuth(app: Express) {
+  // Behind the Azure/Replit proxy; needed for req.ip to reflect the real client address
+  app.set("trust proxy", 1);
   app.use(getSession());
 
   // Login endpoint
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { email, password } = loginUserSchema.parse(req.body);
+
+      const retryAfter = await getLoginRetryAfter(email, req.ip);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: "Too many failed login attempts. Please try again later.", retryAfter });
+      }
       
       const user = await storage.getUserByEmail(email);
-      if (!user || !verifyPassword(password, user.password)) {
+      if (!user || !(await verifyPassword(password, user.password))) {
+        await recordFailedLogin(email, req.ip);
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
+      if (!user.isActive) {
+        return res.status(403).json({ message: "Account has been deactivated" });
+      }
+
+      await clearFailedLogins(email);
+
+      // Transparently upgrade legacy SHA-256 or under-strength hashes
+      if (needsRehash(user.password)) {
+        await storage.updateUserPassword(user.id, await hashPassword(password));
+      }
+
       // Store user in session
       (req.session as any).userId = user.id;
       
@@ -62,6 +136,17 @@ export async function setupAuth(app: Express) {
   app.post("/api/auth/register", async (req, res) => {
     try {
       const userData = registerUserSchema.parse(req.body);
+
+      // Admins registering accounts from the dashboard keep their own session
+      const sessionUserId = (req.session as any).userId;
+      const currentUser = sessionUserId ? await storage.getUserById(sessionUserId) : undefined;
+      const isManagingUsers = hasPermission(currentUser?.role, "users:manage");
+
+      // Self-registration is limited to client and driver accounts
+      const role = userData.role || "client";
+      if (!isRole(role) || (role !== "client" && role !== "driver" && !isManagingUsers)) {
+        return res.status(403).json({ message: "You cannot register an account with this role" });
+      }
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(userData.email);
@@ -70,22 +155,125 @@ export async function setupAuth(app: Express) {
       }
 
       // Hash password and create user
-      const hashedPassword = hashPassword(userData.password);
+      const hashedPassword = await hashPassword(userData.password);
       const user = await storage.createUser({
         ...userData,
         password: hashedPassword,
       });
 
+      // The account exists either way; a failed send is retried with "Resend Email" once signed in
+      let verificationEmailSent = true;
+      try {
+        await sendVerificationEmail(req, user);
+      } catch (error) {
+        console.error("Error sending verification email:", error);
+        verificationEmailSent = false;
+      }
+
       // Store user in session
-      (req.session as any).userId = user.id;
+      if (!isManagingUsers) {
+        (req.session as any).userId = user.id;
+      }
       
-      res.json({ user: { ...user, password: undefined } });
+      res.json({ user: { ...user, password: undefined }, verificationEmailSent });
     } catch (error) {
       console.error("Register error:", error);
       res.status(400).json({ message: "Invalid request" });
     }
   });
 
+  // Forgot password endpoint
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      if (!(await allowPasswordReset(email, req.ip))) {
+        return res.status(429).json({ message: "Too many password reset requests. Please try again later." });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        // A failed send must not change the response either
+        try {
+          await sendPasswordResetEmail(req, user);
+        } catch (error) {
+          console.error("Error sending password reset email:", error);
+        }
+      }
+
+      // Same response whether or not the account exists, so emails can't be enumerated
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(400).json({ message: "Invalid request" });
+    }
+  });
+
+  // Reset password endpoint
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      const authToken = await storage.consumeAuthToken(hashToken(token), "password_reset");
+      if (!authToken) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(authToken.userId, await hashPassword(password));
+      // Receiving the reset email proves ownership of the address
+      await storage.markEmailVerified(authToken.userId);
+
+      // Sessions opened with the old password are revoked, and the new one can be used despite earlier failures
+      await storage.deleteSessionsForUser(authToken.userId);
+      const user = await storage.getUserById(authToken.userId);
+      if (user) {
+        await clearFailedLogins(user.email);
+      }
+
+      res.json({ message: "Password has been reset" });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(400).json({ message: "Invalid request" });
+    }
+  });
+
+  // Verify email endpoint
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+
+      const authToken = await storage.consumeAuthToken(hashToken(token), "email_verification");
+      if (!authToken) {
+        return res.status(400).json({ message: "Verification link is invalid or has expired" });
+      }
+
+      await storage.markEmailVerified(authToken.userId);
+
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(400).json({ message: "Invalid request" });
+    }
+  });
+
+  // Resend verification email endpoint
+  app.post("/api/auth/verify-email/resend", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Email is already verified" });
+      }
+
+      await sendVerificationEmail(req, user);
+
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Logout endpoint
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy((err) => {
@@ -105,7 +293,7 @@ export async function setupAuth(app: Express) {
       }
 
       const user = await storage.getUserById(userId);
-      if (!user) {
+      if (!user || !user.isActive) {
         return res.status(401).json({ message: "User not found" });
       }
 
@@ -125,7 +313,7 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     }
 
     const user = await storage.getUserById(userId);
-    if (!user) {
+    if (!user || !user.isActive) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
@@ -135,4 +323,40 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     console.error("Auth middleware error:", error);
     res.status(500).json({ message: "Internal server error" });
   }
-};
\ No newline at end of file
+};
+
+export const requireVerifiedEmail: RequestHandler = (req, res, next) => {
+  const user = (req as any).user;
+  if (!user || !user.emailVerified) {
+    return res.status(403).json({ message: "Please verify your email address first" });
+  }
+  next();
+};
+
+// Must run after isAuthenticated; passes when the user's role grants any of the listed permissions
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return (req, res, next) => {
+    const user = (req as any).user;
+    if (!user || !permissions.some((permission) => hasPermission(user.role, permission))) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Resolves the logged-in user from the session cookie on a WebSocket upgrade request, which never passes
+// through the express middleware chain
+export function authenticateUpgrade(req: IncomingMessage): Promise<User | undefined> {
+  return new Promise((resolve) => {
+    getSession()(req as Request, {} as Response, async (error?: unknown) => {
+      try {
+        const userId = error ? undefined : ((req as Request).session as any)?.userId;
+        const user = userId ? await storage.getUserById(userId) : undefined;
+        resolve(user?.isActive ? user : undefined);
+      } catch (lookupError) {
+        console.error("WebSocket auth error:", lookupError);
+        resolve(undefined);
+      }
+    });
+  });
+}
@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { checkCapacity } from "./capacity";
+import { getDriverMetrics } from "./driverMetrics";
+import {
+  bidScoringWeightsSchema,
+  BID_SCORE_FACTORS,
+  DEFAULT_BID_SCORING_WEIGHTS,
+  type BidScoreComponent,
+  type BidScoreFactor,
+  type BidScoringWeights,
+  type ScoredBid,
+} from "@shared/bidScoring";
+import { distanceKm } from "@shared/gpsTracking";
+import { ACTIVE_BID_STATUSES, type Bid, type DriverMetrics, type GpsTracking, type TransportRequest, type Vehicle } from "@shared/schema";
+
+const WEIGHTS_SETTING_KEY = "bid_scoring_weights";
+
+// Factors without data (no reviews, no completed jobs, no location) neither help nor hurt a bid
+const NEUTRAL = 0.5;
+const MAX_PICKUP_DISTANCE_KM = 200; // scores zero at or beyond this distance
+const MAX_LOCATION_AGE_MS = 24 * 60 * 60 * 1000; // older fixes say little about where the driver is now
+
+interface FactorScore {
+  value: number;
+  detail: string;
+}
+
+interface DriverFacts {
+  rating: number | null; // average review out of 5
+  metrics: DriverMetrics;
+  vehicles: Vehicle[];
+  lastLocation: GpsTracking | undefined;
+}
+
+export async function getBidScoringWeights(): Promise<BidScoringWeights> {
+  const setting = await storage.getSetting(WEIGHTS_SETTING_KEY);
+  const parsed = bidScoringWeightsSchema.safeParse(setting?.value);
+  return parsed.success ? parsed.data : DEFAULT_BID_SCORING_WEIGHTS;
+}
+
+export async function updateBidScoringWeights(weights: BidScoringWeights, updatedBy: number): Promise<BidScoringWeights> {
+  await storage.upsertSetting(WEIGHTS_SETTING_KEY, weights, updatedBy);
+  return weights;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Half the budget or less scores full marks, the budget itself half marks and 1.5× the budget nothing
+function scorePrice(bid: Bid, request: TransportRequest): FactorScore {
+  const ratio = Number(bid.amount) / Number(request.budget);
+  return { value: clamp(1.5 - ratio), detail: `${Math.round(ratio * 100)}% of budget` };
+}
+
+function scoreRating(rating: number | null): FactorScore {
+  if (rating === null) return { value: NEUTRAL, detail: "No reviews yet" };
+  return { value: clamp(rating / 5), detail: `${rating.toFixed(1)}/5` };
+}
+
+function scoreOnTime({ completedJobs, onTimeJobs }: DriverMetrics): FactorScore {
+  if (completedJobs === 0) return { value: NEUTRAL, detail: "No completed jobs yet" };
+  return { value: onTimeJobs / completedJobs, detail: `${onTimeJobs} of ${completedJobs} jobs on time` };
+}
+
+// A vehicle that can't carry the load scores nothing. Among those that can, the one the load fills best counts:
+// an empty truck scores half marks and a full one full marks, since oversized vehicles cost more to run.
+function scoreVehicleFit(request: TransportRequest, vehicles: Vehicle[]): FactorScore {
+  const capacity = checkCapacity(request, vehicles);
+  if (!capacity.eligible) return { value: 0, detail: capacity.reason ?? "No suitable vehicle" };
+
+  const utilisation = Math.max(
+    ...vehicles
+      .filter((vehicle) => capacity.vehicleIds.includes(vehicle.id))
+      .map((vehicle) => Math.min(1, Number(request.weight) / Number(vehicle.maxPayloadKg))),
+  );
+  return { value: 0.5 + utilisation / 2, detail: `Load uses ${Math.round(utilisation * 100)}% of payload` };
+}
+
+function scoreDistance(request: TransportRequest, lastLocation: GpsTracking | undefined, now: Date): FactorScore {
+  if (!request.pickupLatitude || !request.pickupLongitude) {
+    return { value: NEUTRAL, detail: "Pickup not pinned" };
+  }
+  if (!lastLocation || now.getTime() - lastLocation.timestamp.getTime() > MAX_LOCATION_AGE_MS) {
+    return { value: NEUTRAL, detail: "No recent driver location" };
+  }
+
+  const km = distanceKm(
+    Number(lastLocation.latitude),
+    Number(lastLocation.longitude),
+    Number(request.pickupLatitude),
+    Number(request.pickupLongitude),
+  );
+  return { value: clamp(1 - km / MAX_PICKUP_DISTANCE_KM), detail: `${Math.round(km)} km from pickup` };
+}
+
+async function getDriverFacts(driverId: number): Promise<DriverFacts> {
+  const [driver, metrics, vehicles, lastLocation] = await Promise.all([
+    storage.getUserById(driverId),
+    getDriverMetrics(driverId),
+    storage.getVehiclesForDriver(driverId),
+    storage.getLatestGpsTrackingForDriver(driverId),
+  ]);
+  const rating = driver?.ratingAverage ? Number(driver.ratingAverage) : null;
+  return { rating, metrics, vehicles, lastLocation };
+}
+
+function scoreFactors(request: TransportRequest, bid: Bid, facts: DriverFacts, now: Date): Record<BidScoreFactor, FactorScore> {
+  return {
+    price: scorePrice(bid, request),
+    rating: scoreRating(facts.rating),
+    onTime: scoreOnTime(facts.metrics),
+    vehicleFit: scoreVehicleFit(request, facts.vehicles),
+    distance: scoreDistance(request, facts.lastLocation, now),
+  };
+}
+
+const isActive = (bid: Bid) => (ACTIVE_BID_STATUSES as readonly string[]).includes(bid.status);
+
+// Ranks a request's bids best first: open bids ahead of withdrawn or rejected ones, then by score, then the cheaper bid
+export async function scoreBids(request: TransportRequest, bids: Bid[], now: Date = new Date()): Promise<ScoredBid[]> {
+  const weights = await getBidScoringWeights();
+  const totalWeight = BID_SCORE_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+
+  const driverIds = Array.from(new Set(bids.map((bid) => bid.driverId)));
+  const facts = new Map(await Promise.all(driverIds.map(async (id) => [id, await getDriverFacts(id)] as const)));
+
+  const scored = bids.map((bid): ScoredBid => {
+    const factors = scoreFactors(request, bid, facts.get(bid.driverId)!, now);
+    const scoreBreakdown: BidScoreComponent[] = BID_SCORE_FACTORS.map((factor) => ({
+      factor,
+      value: Math.round(factors[factor].value * 100) / 100,
+      weight: weights[factor],
+      points: Math.round(((factors[factor].value * weights[factor]) / totalWeight) * 1000) / 10,
+      detail: factors[factor].detail,
+    }));
+    const score = Math.round(scoreBreakdown.reduce((sum, component) => sum + component.points, 0) * 10) / 10;
+    return { ...bid, score, scoreBreakdown };
+  });
+
+  return scored.sort((a, b) =>
+    Number(isActive(b)) - Number(isActive(a)) || b.score - a.score || Number(a.amount) - Number(b.amount),
+  );
+}
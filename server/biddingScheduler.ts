@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { checkCapacity } from "./capacity";
+import { notifyUser } from "./notifications";
+import { publishBidUpdate, publishStatusUpdate } from "./realtime";
+import type { Bid, TransportRequest } from "@shared/schema";
+
+const CHECK_INTERVAL = 60 * 1000;
+
+// Lowest pending bid whose driver is still active and can still carry the load; ties go to the earlier bid
+async function findQualifyingBid(request: TransportRequest, openBids: Bid[]): Promise<Bid | undefined> {
+  const candidates = openBids
+    .filter(bid => bid.status === "pending")
+    .sort((a, b) => Number(a.amount) - Number(b.amount) || a.createdAt!.getTime() - b.createdAt!.getTime());
+
+  for (const bid of candidates) {
+    const driver = await storage.getUserById(bid.driverId);
+    if (!driver || !driver.isActive) continue;
+    if (checkCapacity(request, await storage.getVehiclesForDriver(bid.driverId)).eligible) return bid;
+  }
+  return undefined;
+}
+
+async function closeRequestBidding(request: TransportRequest, now: Date): Promise<void> {
+  // Claiming the close first means a second server instance skips the request
+  const closedRequest = await storage.closeBidding(request.id, now);
+  if (!closedRequest) return;
+
+  const openBids = (await storage.getBidsForRequest(request.id))
+    .filter(bid => bid.status === "pending" || bid.status === "client_selected");
+
+  if (openBids.length === 0) {
+    const expiredRequest = await storage.transitionTransportRequestStatus(request.id, {
+      from: "pending",
+      to: "expired",
+      actorId: null,
+      reason: "No bids were received before the bidding deadline",
+    });
+    if (expiredRequest) {
+      await publishStatusUpdate(expiredRequest, "pending");
+      await notifyUser(request.clientId, {
+        subject: `REQ-${request.id} expired without bids`,
+        text: `Bidding on REQ-${request.id} (${request.pickupLocation} → ${request.deliveryLocation}) closed without any bids, so the request has expired. You can create a new request with a later deadline or a higher budget.`,
+      });
+    }
+    return;
+  }
+
+  const winningBid = closedRequest.autoAward ? await findQualifyingBid(closedRequest, openBids) : undefined;
+  const result = winningBid
+    ? await storage.acceptBid(winningBid.id, { actorId: null, expectedVersion: closedRequest.version })
+    : undefined;
+
+  if (winningBid && result) {
+    await publishStatusUpdate(result.request, "pending");
+    await publishBidUpdate(result.bid);
+    await notifyUser(winningBid.driverId, {
+      subject: `Your bid on REQ-${request.id} was accepted`,
+      text: `Bidding on REQ-${request.id} (${request.pickupLocation} → ${request.deliveryLocation}) closed and your bid of R${winningBid.amount} was the best qualifying bid. Pickup is scheduled for ${request.pickupDate.toLocaleString()}.`,
+    });
+    await notifyUser(request.clientId, {
+      subject: `REQ-${request.id} was awarded`,
+      text: `Bidding on REQ-${request.id} closed and the best qualifying bid of R${winningBid.amount} was accepted automatically. The driver has been notified.`,
+    });
+    return;
+  }
+
+  await notifyUser(request.clientId, {
+    subject: `Bidding on REQ-${request.id} has closed`,
+    text: `Bidding on REQ-${request.id} (${request.pickupLocation} → ${request.deliveryLocation}) closed with ${openBids.length} bid(s). Review them and accept one from your dashboard.`,
+  });
+}
+
+export async function closeDueBidding(now: Date = new Date()): Promise<void> {
+  const dueRequests = await storage.getTransportRequestsWithBiddingDue(now);
+  for (const request of dueRequests) {
+    try {
+      await closeRequestBidding(request, now);
+    } catch (error) {
+      console.error(`Error closing bidding on request ${request.id}:`, error);
+    }
+  }
+}
+
+// Runs for the lifetime of the process; a failed run is logged and retried on the next tick
+export function startBiddingScheduler(): NodeJS.Timeout {
+  const run = () => closeDueBidding().catch(error => console.error("Error running bidding scheduler:", error));
+  run();
+  return setInterval(run, CHECK_INTERVAL);
+}
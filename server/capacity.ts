@@ -0,0 +1,132 @@
+import type { HandlingFlag, TransportRequest, Vehicle } from "@shared/schema";
+
+export interface Dimensions {
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+}
+
+export interface CapacityCheck {
+  eligible: boolean;
+  reason?: string;
+  vehicleIds: number[]; // vehicles that can carry the load
+}
+
+const UNIT_TO_CM: Record<string, number> = {
+  mm: 0.1,
+  cm: 1,
+  m: 100,
+  metre: 100,
+  metres: 100,
+  meter: 100,
+  meters: 100,
+};
+
+// Matches a number with an optional unit, e.g. "120", "1.2m", "80 cm", "0,6 metres"
+const MEASUREMENT = /(\d+(?:[.,]\d+)?)(?:\s*(mm|cm|metres?|meters?|m)(?![a-z]))?/g;
+
+// Best-effort parse of the free-text dimensions clients type ("120x80x60cm", "1.2m x 0.8m x 0.6m",
+// "L 120 W 80 H 60"). Returns null when three measurements can't be found.
+export function parseDimensions(text: string | null | undefined): Dimensions | null {
+  if (!text) return null;
+
+  const matches = Array.from(text.toLowerCase().matchAll(MEASUREMENT)).slice(0, 3);
+  if (matches.length < 3) return null;
+
+  // A unit written once ("120x80x60 cm") applies to every value without its own unit
+  const sharedUnit = matches.map((match) => match[2]).find(Boolean);
+  const values = matches.map((match) => parseFloat(match[1].replace(",", ".")));
+
+  // Without any unit, small numbers are almost certainly metres
+  const fallbackUnit = sharedUnit ?? (values.every((value) => value <= 20) ? "m" : "cm");
+
+  const [lengthCm, widthCm, heightCm] = matches.map((match, index) =>
+    Math.round(values[index] * UNIT_TO_CM[match[2] ?? fallbackUnit]),
+  );
+  if (!lengthCm || !widthCm || !heightCm) return null;
+
+  return { lengthCm, widthCm, heightCm };
+}
+
+function volumeM3(dimensions: Dimensions): number {
+  return (dimensions.lengthCm * dimensions.widthCm * dimensions.heightCm) / 1_000_000;
+}
+
+// Compares sorted sides so a load can be turned to fit; clients rarely give dimensions in L×W×H order
+function fitsLoadBay(load: Dimensions, vehicle: Vehicle): boolean {
+  if (!vehicle.loadLengthCm || !vehicle.loadWidthCm || !vehicle.loadHeightCm) return true;
+
+  const loadSides = [load.lengthCm, load.widthCm, load.heightCm].sort((a, b) => b - a);
+  const baySides = [vehicle.loadLengthCm, vehicle.loadWidthCm, vehicle.loadHeightCm].sort((a, b) => b - a);
+  return loadSides.every((side, index) => side <= baySides[index]);
+}
+
+interface Load {
+  weightKg: number;
+  dimensions: Dimensions | null; // per package
+  quantity: number;
+  handlingFlags: HandlingFlag[];
+}
+
+type UnfitReason = "weight" | "dimensions" | "equipment";
+
+// Returns why the vehicle can't carry the load, or null when it can.
+// Missing vehicle measurements are treated as "fits" so partially filled profiles aren't penalised.
+function unfitReason(vehicle: Vehicle, load: Load): UnfitReason | null {
+  if (load.weightKg > Number(vehicle.maxPayloadKg)) {
+    return "weight";
+  }
+  if (load.dimensions) {
+    if (!fitsLoadBay(load.dimensions, vehicle)) return "dimensions";
+    if (vehicle.volumeM3 && volumeM3(load.dimensions) * load.quantity > Number(vehicle.volumeM3)) return "dimensions";
+  }
+  if (load.handlingFlags.includes("refrigeration_required") && !vehicle.isRefrigerated) return "equipment";
+  if (load.handlingFlags.includes("tail_lift_required") && !vehicle.hasTailLift) return "equipment";
+  return null;
+}
+
+// Structured dimensions win; legacy rows fall back to parsing the free-text summary
+type LoadFields = Pick<TransportRequest, "weight" | "dimensions" | "lengthCm" | "widthCm" | "heightCm" | "quantity" | "handlingFlags">;
+
+function toLoad(request: LoadFields): Load {
+  const dimensions = request.lengthCm && request.widthCm && request.heightCm
+    ? { lengthCm: request.lengthCm, widthCm: request.widthCm, heightCm: request.heightCm }
+    : parseDimensions(request.dimensions);
+
+  return {
+    weightKg: Number(request.weight),
+    dimensions,
+    quantity: request.quantity || 1,
+    handlingFlags: Array.isArray(request.handlingFlags) ? (request.handlingFlags as HandlingFlag[]) : [],
+  };
+}
+
+export function checkCapacity(request: LoadFields, driverVehicles: Vehicle[]): CapacityCheck {
+  if (driverVehicles.length === 0) {
+    return { eligible: false, reason: "Register a vehicle to bid on requests", vehicleIds: [] };
+  }
+
+  const load = toLoad(request);
+
+  const reasons = driverVehicles.map((vehicle) => unfitReason(vehicle, load));
+  const vehicleIds = driverVehicles.filter((_, index) => reasons[index] === null).map((vehicle) => vehicle.id);
+
+  if (vehicleIds.length > 0) {
+    return { eligible: true, vehicleIds };
+  }
+
+  if (reasons.every((reason) => reason === "weight")) {
+    const maxPayload = Math.max(...driverVehicles.map((vehicle) => Number(vehicle.maxPayloadKg)));
+    return {
+      eligible: false,
+      reason: `Load of ${load.weightKg.toLocaleString()} kg exceeds your largest payload (${maxPayload.toLocaleString()} kg)`,
+      vehicleIds,
+    };
+  }
+
+  if (reasons.every((reason) => reason === "equipment")) {
+    return { eligible: false, reason: "Load needs equipment your vehicles don't have", vehicleIds };
+  }
+
+  return { eligible: false, reason: "Load is too large for your vehicles", vehicleIds };
+}
@@ -0,0 +1,24 @@
+import { storage } from "./storage";
+import type { DriverMetrics } from "@shared/schema";
+
+// One decimal place, or null when there is nothing to divide by
+function percentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+}
+
+export async function getDriverMetrics(driverId: number): Promise<DriverMetrics> {
+  const [jobs, bids] = await Promise.all([
+    storage.getDriverJobStats(driverId),
+    storage.getDriverBidStats(driverId),
+  ]);
+
+  return {
+    completedJobs: jobs.completed,
+    onTimeJobs: jobs.onTime,
+    onTimeRate: percentage(jobs.onTime, jobs.completed),
+    cancellationRate: percentage(jobs.cancelled, jobs.assigned),
+    bidsPlaced: bids.placed,
+    acceptanceRate: percentage(bids.accepted, bids.decided),
+    averageBidToBudget: bids.averageBudgetRatio === null ? null : Math.round(bids.averageBudgetRatio * 1000) / 10,
+  };
+}
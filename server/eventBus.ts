@@ -0,0 +1,103 @@
+import { Client } from "@neondatabase/serverless";
+import { pool } from "./db";
+import { publishedEventSchema, type PublishedEvent } from "@shared/realtime";
+
+const CHANNEL = "realtime_events";
+const RECONNECT_DELAY = 5 * 1000;
+
+export interface EventBusListener {
+  onEvent(event: PublishedEvent): void;
+  // Events may have been lost (the bus was disconnected for a while); subscribers should resynchronise
+  onReset(): void;
+}
+
+export interface EventBus {
+  publish(event: PublishedEvent): Promise<void>;
+  subscribe(listener: EventBusListener): void;
+}
+
+// Single-process bus for local development and single-instance deployments (EVENT_BUS=memory): events only reach
+// this instance
+export class MemoryEventBus implements EventBus {
+  private listeners: EventBusListener[] = [];
+
+  async publish(event: PublishedEvent): Promise<void> {
+    this.listeners.forEach((listener) => listener.onEvent(event));
+  }
+
+  subscribe(listener: EventBusListener): void {
+    this.listeners.push(listener);
+  }
+}
+
+// Fans events out to every app instance through Postgres LISTEN/NOTIFY. Each instance, the publisher included,
+// receives events from its LISTEN connection, so all of them see the same order.
+export class PostgresEventBus implements EventBus {
+  private listeners: EventBusListener[] = [];
+  private listening = false;
+
+  async publish(event: PublishedEvent): Promise<void> {
+    await pool.query("select pg_notify($1, $2)", [CHANNEL, JSON.stringify(event)]);
+  }
+
+  subscribe(listener: EventBusListener): void {
+    this.listeners.push(listener);
+    if (!this.listening) {
+      this.listening = true;
+      void this.listen(false);
+    }
+  }
+
+  private receive(payload: string | undefined) {
+    try {
+      const parsed = publishedEventSchema.safeParse(JSON.parse(payload ?? ""));
+      if (!parsed.success) {
+        console.error("Ignoring malformed event bus message:", parsed.error.message);
+        return;
+      }
+      this.listeners.forEach((listener) => listener.onEvent(parsed.data));
+    } catch (error) {
+      console.error("Error processing event bus message:", error);
+    }
+  }
+
+  // LISTEN needs a dedicated connection outside the pool. Notifications sent while it is down are lost, so
+  // listeners are reset once it is back.
+  private async listen(reconnecting: boolean): Promise<void> {
+    const client = new Client({ connectionString: process.env.DATABASE_URL });
+    let lost = false;
+    const reconnect = (error: unknown) => {
+      if (lost) return;
+      lost = true;
+      console.error("Event bus connection lost, reconnecting:", error);
+      client.end().catch(() => {});
+      setTimeout(() => void this.listen(true), RECONNECT_DELAY);
+    };
+
+    client.on("notification", (message) => this.receive(message.payload));
+    client.on("error", reconnect);
+    client.on("end", () => reconnect("connection ended"));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+      if (reconnecting) this.listeners.forEach((listener) => listener.onReset());
+    } catch (error) {
+      reconnect(error);
+    }
+  }
+}
+
+let bus: EventBus | undefined;
+
+export function getEventBus(): EventBus {
+  if (!bus) {
+    bus = process.env.EVENT_BUS === "memory" ? new MemoryEventBus() : new PostgresEventBus();
+  }
+  return bus;
+}
+
+// Allows tests to install their own bus before the realtime server starts
+export function setEventBus(eventBus: EventBus) {
+  bus = eventBus;
+}
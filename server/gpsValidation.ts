@@ -0,0 +1,69 @@
+import { storage } from "./storage";
+import {
+  TRACKABLE_REQUEST_STATUSES,
+  checkGpsPlausibility,
+  gpsRejection,
+  type GpsFix,
+  type GpsRejection,
+} from "@shared/gpsTracking";
+import type { GpsTracking, TransportRequest } from "@shared/schema";
+
+interface TrackedRequest {
+  request: TransportRequest;
+  assignedAt: Date | null; // the current assignment; earlier points belong to no one's delivery
+  // When the request left the trackable statuses, so points recorded before then (queued offline) still count
+  closedAt: Date | null;
+}
+
+const isTrackable = (status: string) => (TRACKABLE_REQUEST_STATUSES as readonly string[]).includes(status);
+
+const toFix = (tracking: GpsTracking): GpsFix => ({
+  latitude: Number(tracking.latitude),
+  longitude: Number(tracking.longitude),
+  accuracy: tracking.accuracy === null ? null : Number(tracking.accuracy),
+  timestamp: tracking.timestamp,
+});
+
+async function loadTrackedRequest(requestId: number): Promise<TrackedRequest | undefined> {
+  const request = await storage.getTransportRequestById(requestId);
+  if (!request) return undefined;
+
+  const history = (await storage.getStatusHistoryForRequest(requestId))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const assignment = history.find((entry) => entry.toStatus === "assigned");
+  const closing = isTrackable(request.status)
+    ? undefined
+    : history.find((entry) => entry.fromStatus !== null && isTrackable(entry.fromStatus) && !isTrackable(entry.toStatus));
+  return { request, assignedAt: assignment?.createdAt ?? null, closedAt: closing?.createdAt ?? null };
+}
+
+// Checks one upload's points in order for a driver. Each accepted fix becomes the previous one for the next,
+// starting from the driver's latest stored fix; requests are loaded once per upload. A fix older than the previous
+// one is refused, since a backdated point could otherwise be placed anywhere without a speed check.
+export function createGpsValidator(driverId: number, now: Date = new Date()) {
+  const requests = new Map<number, Promise<TrackedRequest | undefined>>();
+  let previous: Promise<GpsFix | undefined> | undefined;
+
+  return async (requestId: number, fix: GpsFix): Promise<GpsRejection | null> => {
+    if (!requests.has(requestId)) requests.set(requestId, loadTrackedRequest(requestId));
+    const tracked = await requests.get(requestId)!;
+
+    if (!tracked) return gpsRejection("request_not_found");
+    if (tracked.request.assignedDriverId !== driverId) return gpsRejection("not_assigned");
+    if (!isTrackable(tracked.request.status) && !(tracked.closedAt && fix.timestamp <= tracked.closedAt)) {
+      return gpsRejection("request_not_active");
+    }
+    if (tracked.assignedAt && fix.timestamp < tracked.assignedAt) return gpsRejection("before_assignment");
+
+    if (!previous) {
+      previous = storage.getLatestGpsTrackingForDriver(driverId).then((latest) => latest && toFix(latest));
+    }
+    const lastFix = await previous;
+    if (lastFix && fix.timestamp < lastFix.timestamp) return gpsRejection("out_of_order");
+    const rejection = checkGpsPlausibility(fix, lastFix, now);
+    if (rejection) return rejection;
+
+    previous = Promise.resolve(fix);
+    return null;
+  };
+}
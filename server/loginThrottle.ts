@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import type { LoginThrottle } from "@shared/schema";
+
+const FAILURE_WINDOW = 15 * 60 * 1000; // failures older than this are forgotten
+const BASE_LOCKOUT = 30 * 1000;
+const MAX_LOCKOUT = 60 * 60 * 1000;
+
+// Drivers share devices (and therefore IPs) at depots, so the IP limit is much looser
+const EMAIL_FAILURE_THRESHOLD = 5;
+const IP_FAILURE_THRESHOLD = 20;
+
+function emailKey(email: string): string {
+  return `email:${email.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+// Exponential backoff once the threshold is reached: 30s, 60s, 120s, ... capped at 1 hour
+function lockoutDuration(failedCount: number, threshold: number): number {
+  if (failedCount < threshold) return 0;
+  return Math.min(BASE_LOCKOUT * 2 ** (failedCount - threshold), MAX_LOCKOUT);
+}
+
+// Seconds until the caller may try again, or 0 when login attempts are allowed
+export async function getLoginRetryAfter(email: string, ip: string | undefined): Promise<number> {
+  const keys = [emailKey(email)];
+  if (ip) keys.push(ipKey(ip));
+
+  const now = Date.now();
+  const throttles = await storage.getLoginThrottles(keys);
+  const lockedUntil = Math.max(0, ...throttles.map((throttle: LoginThrottle) => throttle.lockedUntil?.getTime() ?? 0));
+
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+}
+
+export async function recordFailedLogin(email: string, ip: string | undefined): Promise<void> {
+  const windowStart = new Date(Date.now() - FAILURE_WINDOW);
+  const targets: [string, number][] = [[emailKey(email), EMAIL_FAILURE_THRESHOLD]];
+  if (ip) targets.push([ipKey(ip), IP_FAILURE_THRESHOLD]);
+
+  for (const [key, threshold] of targets) {
+    const throttle = await storage.incrementLoginFailures(key, windowStart);
+    const duration = lockoutDuration(throttle.failedCount, threshold);
+    if (duration > 0) {
+      await storage.setLoginLockout(key, new Date(Date.now() + duration));
+    }
+  }
+}
+
+// The IP counter is left alone on success so one valid account can't reset a stuffing run
+export async function clearFailedLogins(email: string): Promise<void> {
+  await storage.clearLoginThrottle(emailKey(email));
+}
+
+// Password reset mails are limited per address (so nobody can flood someone's inbox) and, more loosely, per IP.
+// Every request counts, whether or not the account exists, so the limit reveals nothing about which emails do.
+const RESET_WINDOW = 60 * 60 * 1000;
+const RESET_EMAIL_LIMIT = 3;
+const RESET_IP_LIMIT = 10;
+
+export async function allowPasswordReset(email: string, ip: string | undefined): Promise<boolean> {
+  const windowStart = new Date(Date.now() - RESET_WINDOW);
+  const targets: [string, number][] = [[`reset:${emailKey(email)}`, RESET_EMAIL_LIMIT]];
+  if (ip) targets.push([`reset:${ipKey(ip)}`, RESET_IP_LIMIT]);
+
+  let allowed = true;
+  for (const [key, limit] of targets) {
+    const throttle = await storage.incrementLoginFailures(key, windowStart);
+    if (throttle.failedCount > limit) allowed = false;
+  }
+  return allowed;
+}
@@ -0,0 +1,49 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development stand-in: prints messages to the server log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+// Test stand-in: writes each message as a JSON file so it can be inspected afterwards
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.MAIL_TRANSPORT === "file"
+      ? new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve("mail-outbox"))
+      : new ConsoleMailTransport();
+  }
+  return transport;
+}
+
+// Allows a real provider (SMTP, SES, ...) to be plugged in at startup
+export function setMailTransport(mailTransport: MailTransport) {
+  transport = mailTransport;
+}
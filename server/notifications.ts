@@ -0,0 +1,30 @@
+import { storage } from "./storage";
+import { getMailTransport } from "./mail";
+
+interface EmailNotification {
+  subject: string;
+  text: string;
+}
+
+// A failed delivery is logged rather than failing the action that triggered it
+export async function notifyUser(userId: number, notification: EmailNotification): Promise<void> {
+  try {
+    const user = await storage.getUserById(userId);
+    if (!user || !user.isActive) return;
+
+    await getMailTransport().send({
+      to: user.email,
+      subject: notification.subject,
+      text: `Hi ${user.firstName || "there"},\n\n${notification.text}`,
+    });
+  } catch (error) {
+    console.error(`Error notifying user ${userId}:`, error);
+  }
+}
+
+// Emails each driver once
+export async function notifyDrivers(driverIds: number[], notification: EmailNotification): Promise<void> {
+  for (const driverId of Array.from(new Set(driverIds))) {
+    await notifyUser(driverId, notification);
+  }
+}
@@ -0,0 +1,103 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// Stored format: $scrypt$v=1$ln=<log2 N>,r=<r>,p=<p>$<salt base64>$<hash base64>
+const SCHEME = "scrypt";
+const VERSION = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const DEFAULT_COST = 14; // N = 2^14
+
+// Work factor can be raised via PASSWORD_HASH_COST; existing hashes are upgraded on next login
+function getCost(): number {
+  const cost = parseInt(process.env.PASSWORD_HASH_COST || "", 10);
+  if (Number.isNaN(cost)) return DEFAULT_COST;
+  return Math.min(Math.max(cost, 10), 20);
+}
+
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (err, derivedKey) => {
+      if (err) return reject(err);
+      resolve(derivedKey);
+    });
+  });
+}
+
+function scryptOptions(cost: number, r: number, p: number): ScryptOptions {
+  const N = 2 ** cost;
+  // Node's default maxmem (32 MiB) is too tight for the higher cost settings
+  return { N, r, p, maxmem: 256 * N * r };
+}
+
+interface ParsedHash {
+  cost: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+function parseHash(stored: string): ParsedHash | null {
+  const parts = stored.split("$");
+  // ["", "scrypt", "v=1", "ln=14,r=8,p=1", salt, hash]
+  if (parts.length !== 6 || parts[0] !== "" || parts[1] !== SCHEME || parts[2] !== `v=${VERSION}`) {
+    return null;
+  }
+
+  const params = Object.fromEntries(
+    parts[3].split(",").map((pair) => {
+      const [key, value] = pair.split("=");
+      return [key, parseInt(value, 10)];
+    }),
+  );
+  if (!params.ln || !params.r || !params.p) return null;
+
+  return {
+    cost: params.ln,
+    r: params.r,
+    p: params.p,
+    salt: Buffer.from(parts[4], "base64"),
+    hash: Buffer.from(parts[5], "base64"),
+  };
+}
+
+// Accounts created before the scrypt migration store an unsalted SHA-256 hex digest
+function isLegacyHash(stored: string): boolean {
+  return /^[0-9a-f]{64}$/.test(stored);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const cost = getCost();
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await deriveKey(password, salt, KEY_BYTES, scryptOptions(cost, BLOCK_SIZE, PARALLELISM));
+  return [
+    "",
+    SCHEME,
+    `v=${VERSION}`,
+    `ln=${cost},r=${BLOCK_SIZE},p=${PARALLELISM}`,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (isLegacyHash(stored)) {
+    const candidate = createHash("sha256").update(password).digest();
+    return timingSafeEqual(candidate, Buffer.from(stored, "hex"));
+  }
+
+  const parsed = parseHash(stored);
+  if (!parsed) return false;
+
+  const candidate = await deriveKey(password, parsed.salt, parsed.hash.length, scryptOptions(parsed.cost, parsed.r, parsed.p));
+  return timingSafeEqual(candidate, parsed.hash);
+}
+
+// True when the stored hash uses a legacy scheme or weaker parameters than currently configured
+export function needsRehash(stored: string): boolean {
+  const parsed = parseHash(stored);
+  if (!parsed) return true;
+  return parsed.cost < getCost() || parsed.r !== BLOCK_SIZE || parsed.p !== PARALLELISM;
+}
@@ -0,0 +1,342 @@
+import { randomUUID } from "crypto";
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { authenticateUpgrade } from "./auth";
+import { getEventBus } from "./eventBus";
+import { hasPermission } from "@shared/permissions";
+import {
+  REALTIME_HEARTBEAT_SECONDS,
+  realtimeClientMessageSchema,
+  requestTopic,
+  trackingTopic,
+  type PublishedEvent,
+  type PublishedTopicEvent,
+  type RealtimeEvent,
+  type RealtimeServerMessage,
+} from "@shared/realtime";
+import type { Bid, TransportRequest, User } from "@shared/schema";
+
+const WS_PATH = "/ws";
+
+// Events kept per topic for clients resuming after a dropped connection
+const REPLAY_BUFFER_SIZE = 100;
+const REPLAY_WINDOW = 10 * 60 * 1000;
+
+interface TopicDefinition {
+  pattern: RegExp;
+  authorize: (user: User, match: RegExpMatchArray) => Promise<boolean>;
+}
+
+interface TopicState {
+  seq: number;
+  history: { event: RealtimeEvent; publishedAt: number }[];
+  subscribers: Set<WebSocket>;
+}
+
+// A request's locations, status and bid changes are visible to its client, its assigned driver and admins, live
+// or over HTTP
+export function canFollowRequest(user: User, request: TransportRequest): boolean {
+  return hasPermission(user.role, "requests:view_all") ||
+    (hasPermission(user.role, "requests:view_own") && request.clientId === user.id) ||
+    request.assignedDriverId === user.id;
+}
+
+// Every topic a socket may subscribe to (see shared/realtime.ts); anything else is refused
+const TOPICS: TopicDefinition[] = [
+  {
+    pattern: /^tracking:(\d+)$/,
+    authorize: async (user, [, requestId]) => {
+      const request = await storage.getTransportRequestById(Number(requestId));
+      return !!request && canFollowRequest(user, request);
+    },
+  },
+  {
+    pattern: /^request:(\d+)$/,
+    authorize: async (user, [, requestId]) => {
+      const request = await storage.getTransportRequestById(Number(requestId));
+      return !!request && canFollowRequest(user, request);
+    },
+  },
+  {
+    pattern: /^auctions$/,
+    authorize: async (user) =>
+      hasPermission(user.role, "requests:view_open") || hasPermission(user.role, "requests:view_all"),
+  },
+];
+
+// Outlives its subscribers for the replay window, so a client that drops and reconnects can catch up
+const topics = new Map<string, TopicState>();
+
+// Open sockets of each user, so their access can be revoked when the user's role or account status changes
+const userSockets = new Map<number, Set<WebSocket>>();
+const socketUsers = new WeakMap<WebSocket, number>();
+
+// Sequence numbers are only comparable within one epoch: this process, until the event bus is reset
+let epoch = randomUUID();
+
+function getTopic(topic: string): TopicState {
+  let state = topics.get(topic);
+  if (!state) {
+    state = { seq: 0, history: [], subscribers: new Set() };
+    topics.set(topic, state);
+  }
+  return state;
+}
+
+function send(socket: WebSocket, message: RealtimeServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Replays the buffered events after lastSeq. A client is only resumed when it was numbered by this epoch and
+// nothing it missed has been dropped from the buffer.
+function replay(
+  socket: WebSocket,
+  state: TopicState,
+  resumeFrom: { epoch?: string; lastSeq?: number },
+): { resumed: boolean; replayed: number } {
+  const { lastSeq } = resumeFrom;
+  if (resumeFrom.epoch !== epoch || lastSeq === undefined || lastSeq > state.seq) return { resumed: false, replayed: 0 };
+
+  const missed = state.history.filter(({ event }) => event.seq > lastSeq);
+  const oldestKept = state.history[0]?.event.seq ?? state.seq + 1;
+  missed.forEach(({ event }) => send(socket, event));
+  return { resumed: lastSeq >= oldestKept - 1, replayed: missed.length };
+}
+
+async function subscribe(
+  socket: WebSocket,
+  userId: number,
+  topic: string,
+  resumeFrom: { epoch?: string; lastSeq?: number },
+): Promise<void> {
+  const definition = TOPICS.find((candidate) => candidate.pattern.test(topic));
+  const match = definition && topic.match(definition.pattern);
+
+  // Re-read the user so deactivations and role changes apply to every new subscription
+  const user = await storage.getUserById(userId);
+  if (!definition || !match || !user?.isActive || !(await definition.authorize(user, match))) {
+    send(socket, { type: "subscription_error", topic, seq: 0, payload: { message: "You cannot subscribe to this topic" } });
+    return;
+  }
+
+  // The socket may have closed while the checks ran
+  if (socket.readyState !== WebSocket.OPEN) return;
+
+  const state = getTopic(topic);
+  state.subscribers.add(socket);
+  const result = replay(socket, state, resumeFrom);
+  send(socket, { type: "subscribed", topic, seq: state.seq, payload: { epoch, ...result } });
+}
+
+function unsubscribe(socket: WebSocket, topic: string) {
+  topics.get(topic)?.subscribers.delete(socket);
+}
+
+function unsubscribeAll(socket: WebSocket) {
+  topics.forEach((state) => state.subscribers.delete(socket));
+}
+
+function registerSocket(socket: WebSocket, userId: number) {
+  socketUsers.set(socket, userId);
+  let sockets = userSockets.get(userId);
+  if (!sockets) {
+    sockets = new Set();
+    userSockets.set(userId, sockets);
+  }
+  sockets.add(socket);
+}
+
+function unregisterSocket(socket: WebSocket) {
+  const userId = socketUsers.get(socket);
+  if (userId === undefined) return;
+  const sockets = userSockets.get(userId);
+  sockets?.delete(socket);
+  if (sockets?.size === 0) userSockets.delete(userId);
+}
+
+// The client reconnects and resubscribes, which re-checks every topic against the user's current role; a
+// deactivated user's sessions are gone, so their reconnect is refused
+function closeUserSockets(userId: number) {
+  userSockets.get(userId)?.forEach((socket) => {
+    unsubscribeAll(socket);
+    socket.close(1008, "Access changed");
+  });
+}
+
+// Subscriptions are checked when made, so a status change that moves the request to another driver (or away from
+// any) has to check the request's followers again. Those no longer allowed are dropped with a subscription_error.
+async function reauthorizeRequestFollowers(requestId: number): Promise<void> {
+  const request = await storage.getTransportRequestById(requestId);
+  const users = new Map<number, User | undefined>();
+
+  for (const topic of [trackingTopic(requestId), requestTopic(requestId)]) {
+    const state = topics.get(topic);
+    if (!state) continue;
+
+    for (const socket of Array.from(state.subscribers)) {
+      const userId = socketUsers.get(socket);
+      if (userId === undefined) continue;
+      if (!users.has(userId)) users.set(userId, await storage.getUserById(userId));
+
+      const user = users.get(userId);
+      if (request && user?.isActive && canFollowRequest(user, request)) continue;
+
+      state.subscribers.delete(socket);
+      send(socket, { type: "subscription_error", topic, seq: 0, payload: { message: "You can no longer follow this request" } });
+    }
+  }
+}
+
+// Forgets events older than the replay window, and topics with neither subscribers nor recent events
+function pruneTopics(now: number) {
+  topics.forEach((state, topic) => {
+    state.history = state.history.filter(({ publishedAt }) => now - publishedAt < REPLAY_WINDOW);
+    if (state.subscribers.size === 0 && state.history.length === 0) topics.delete(topic);
+  });
+}
+
+// Numbers an event from the bus within its topic and delivers it to this instance's subscribers of the topic
+function deliver(published: PublishedTopicEvent) {
+  const state = getTopic(published.topic);
+  state.seq += 1;
+  const event = { ...published, seq: state.seq } as RealtimeEvent;
+
+  state.history.push({ event, publishedAt: Date.now() });
+  if (state.history.length > REPLAY_BUFFER_SIZE) state.history.shift();
+
+  state.subscribers.forEach((socket) => send(socket, event));
+
+  // Checked on every status change, as the event doesn't say whether the assigned driver changed. A driver taken
+  // off the request still receives the update that unassigns them.
+  if (event.type === "status_update") {
+    reauthorizeRequestFollowers(event.payload.requestId).catch((error) =>
+      console.error(`Error rechecking followers of request ${event.payload.requestId}:`, error),
+    );
+  }
+}
+
+function handleBusEvent(published: PublishedEvent) {
+  if (published.type === "access_revoked") {
+    closeUserSockets(published.payload.userId);
+  } else {
+    deliver(published);
+  }
+}
+
+// Sends the event through the bus so subscribers on every app instance receive it. A failure is logged rather
+// than failing the action that triggered it; clients reload over HTTP on their regular refresh.
+export async function publish<T extends RealtimeEvent["type"]>(
+  topic: string,
+  type: T,
+  payload: Extract<RealtimeEvent, { type: T }>["payload"],
+): Promise<void> {
+  try {
+    await getEventBus().publish({ type, topic, payload } as PublishedEvent);
+  } catch (error) {
+    console.error(`Error publishing ${type} to ${topic}:`, error);
+  }
+}
+
+// Closes the user's sockets on every instance; call after changing the user's role or deactivating them
+export async function revokeRealtimeAccess(userId: number): Promise<void> {
+  try {
+    await getEventBus().publish({ type: "access_revoked", payload: { userId } });
+  } catch (error) {
+    console.error(`Error revoking realtime access of user ${userId}:`, error);
+  }
+}
+
+export async function publishStatusUpdate(request: TransportRequest, fromStatus: string): Promise<void> {
+  await publish(requestTopic(request.id), "status_update", {
+    requestId: request.id,
+    fromStatus,
+    status: request.status,
+    assignedDriverId: request.assignedDriverId,
+    version: request.version,
+  });
+}
+
+export async function publishBidUpdate(bid: Bid): Promise<void> {
+  await publish(requestTopic(bid.requestId), "bid_update", {
+    requestId: bid.requestId,
+    bidId: bid.id,
+    driverId: bid.driverId,
+    status: bid.status,
+  });
+}
+
+function handleConnection(socket: WebSocket, user: User, alive: WeakSet<WebSocket>) {
+  alive.add(socket);
+  registerSocket(socket, user.id);
+  socket.on("pong", () => alive.add(socket));
+
+  socket.on("message", async (raw) => {
+    try {
+      const parsed = realtimeClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+      if (!parsed.success) return;
+
+      const message = parsed.data;
+      if (message.type === "subscribe") {
+        const { topic, epoch, lastSeq } = message.payload;
+        await subscribe(socket, user.id, topic, { epoch, lastSeq });
+      } else {
+        unsubscribe(socket, message.payload.topic);
+      }
+    } catch (error) {
+      console.error("Error processing WebSocket message:", error);
+    }
+  });
+
+  socket.on("close", () => {
+    unsubscribeAll(socket);
+    unregisterSocket(socket);
+  });
+}
+
+// The /ws upgrade is authenticated with the same session cookie as the API; anonymous sockets are refused
+export function setupRealtime(httpServer: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    // Other upgrades on this server (Vite HMR in development) have their own listeners
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== WS_PATH) return;
+
+    const user = await authenticateUpgrade(req);
+    if (!user) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, user, alive));
+  });
+
+  // Mobile connections often vanish without a close frame; sockets that missed the last ping are dropped
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+    pruneTopics(Date.now());
+  }, REALTIME_HEARTBEAT_SECONDS * 1000);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  getEventBus().subscribe({
+    onEvent: handleBusEvent,
+    // Events may have been missed, so start a new epoch and make every client reconnect and reload
+    onReset: () => {
+      epoch = randomUUID();
+      topics.clear();
+      wss.clients.forEach((socket) => socket.close(1012, "Event stream reset"));
+    },
+  });
+}
@@ -1,63 +1,212 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
-import { insertTransportRequestSchema, insertBidSchema } from "@shared/schema";
+import { storage, type OpenAuctionBidResult } from "./storage";
+import { setupAuth, isAuthenticated, requireVerifiedEmail, requirePermission } from "./auth";
+import { hasPermission } from "@shared/permissions";
+import { checkStatusTransition, getAvailableTransitions } from "@shared/requestStatus";
+import { calculateCancellationFee } from "@shared/cancellation";
+import { isBiddingOpen } from "@shared/bidding";
+import { DEFAULT_MIN_BID_DECREMENT, getAuctionState } from "@shared/auction";
+import { clearFailedLogins } from "./loginThrottle";
+import { checkCapacity } from "./capacity";
+import { notifyDrivers, notifyUser } from "./notifications";
+import { getBidScoringWeights, scoreBids, updateBidScoringWeights } from "./bidScoring";
+import { getDriverMetrics } from "./driverMetrics";
+import { createGpsValidator } from "./gpsValidation";
+import { canFollowRequest, publish, publishBidUpdate, publishStatusUpdate, revokeRealtimeAccess, setupRealtime } from "./realtime";
+import { getActivityBreakdown, getAnalyticsSummary, resolveAnalyticsRange } from "./analytics";
+import { analyticsQuerySchema, type AnalyticsQuery, type AnalyticsRange } from "@shared/analytics";
+import { bidScoringWeightsSchema } from "@shared/bidScoring";
+import type { GpsBatchResult, GpsRejectionReason } from "@shared/gpsTracking";
+import { AUCTIONS_TOPIC, trackingTopic } from "@shared/realtime";
+import { insertTransportRequestSchema, insertBidSchema, adminUserListQuerySchema, updateUserRoleSchema, vehicleSchema, updateRequestStatusSchema, reassignRequestSchema, cancelRequestSchema, updateBidApprovalSchema, acceptBidSchema, assignDriverSchema, placeBidSchema, reviseBidSchema, createReviewSchema, gpsTrackingSubmissionSchema, gpsTrackingBatchSchema, formatDimensions, CARGO_CATEGORIES, HANDLING_FLAGS, BIDDING_MODES, type Bid, type DriverProfile, type GpsTracking, type GpsTrackingSubmission, type InsertGpsTracking, type TransportRequest, type VehicleInput } from "@shared/schema";
 import { z } from "zod";
-import { WebSocketServer, WebSocket } from 'ws';
+
+// Create a schema that converts client data to proper database format
+const serverRequestSchema = z.object({
+  pickupLocation: z.string(),
+  deliveryLocation: z.string(),
+  pickupDate: z.string(),
+  pickupTime: z.string(),
+  deliveryDate: z.string(),
+  deliveryTime: z.string(),
+  itemDescription: z.string(),
+  weight: z.number().positive(),
+  lengthCm: z.number().int().positive(),
+  widthCm: z.number().int().positive(),
+  heightCm: z.number().int().positive(),
+  quantity: z.number().int().positive().default(1),
+  cargoCategory: z.enum(CARGO_CATEGORIES).default("general"),
+  handlingFlags: z.array(z.enum(HANDLING_FLAGS)).default([]),
+  budget: z.number(),
+  isMultipleStops: z.boolean().optional(),
+  stopLocations: z.array(z.string()).optional(),
+  biddingClosesAt: z.string().optional(),
+  autoAward: z.boolean().optional(),
+  biddingMode: z.enum(BIDDING_MODES).default("sealed"),
+  minBidDecrement: z.number().positive().optional(),
+  pickupLatitude: z.number().min(-90).max(90).optional(),
+  pickupLongitude: z.number().min(-180).max(180).optional(),
+});
+
+function toTransportRequestRecord(clientData: z.infer<typeof serverRequestSchema>) {
+  return {
+    pickupLocation: clientData.pickupLocation,
+    deliveryLocation: clientData.deliveryLocation,
+    // A pin needs both coordinates
+    pickupLatitude: clientData.pickupLatitude !== undefined && clientData.pickupLongitude !== undefined
+      ? clientData.pickupLatitude.toString()
+      : null,
+    pickupLongitude: clientData.pickupLatitude !== undefined && clientData.pickupLongitude !== undefined
+      ? clientData.pickupLongitude.toString()
+      : null,
+    // Convert separate date/time fields to Date objects
+    pickupDate: new Date(`${clientData.pickupDate}T${clientData.pickupTime}`),
+    deliveryDate: new Date(`${clientData.deliveryDate}T${clientData.deliveryTime}`),
+    itemDescription: clientData.itemDescription,
+    weight: clientData.weight.toString(),
+    dimensions: formatDimensions(clientData),
+    lengthCm: clientData.lengthCm,
+    widthCm: clientData.widthCm,
+    heightCm: clientData.heightCm,
+    quantity: clientData.quantity,
+    cargoCategory: clientData.cargoCategory,
+    handlingFlags: Array.from(new Set(clientData.handlingFlags)),
+    budget: clientData.budget.toString(),
+    isMultipleStops: clientData.isMultipleStops || false,
+    stopLocations: (clientData.isMultipleStops && clientData.stopLocations) ?
+      clientData.stopLocations.filter(location => location.trim() !== '') : [],
+    biddingClosesAt: clientData.biddingClosesAt ? new Date(clientData.biddingClosesAt) : null,
+    autoAward: clientData.biddingMode !== 'fixed_price' && (clientData.autoAward || false),
+    biddingMode: clientData.biddingMode,
+    minBidDecrement: clientData.biddingMode === 'open_auction'
+      ? (clientData.minBidDecrement ?? DEFAULT_MIN_BID_DECREMENT).toString()
+      : null,
+  };
+}
+
+// A new bidding deadline has to leave time to bid and close before the pickup
+function getBiddingDeadlineError(record: ReturnType<typeof toTransportRequestRecord>, now: Date = new Date()): string | null {
+  if (!record.biddingClosesAt) {
+    return record.biddingMode === 'open_auction' ? "Open auctions need a bidding deadline" : null;
+  }
+  if (isNaN(record.biddingClosesAt.getTime())) return "Invalid bidding deadline";
+  if (record.biddingClosesAt <= now) return "The bidding deadline must be in the future";
+  if (record.biddingClosesAt > record.pickupDate) return "Bidding must close before the pickup time";
+  return null;
+}
+
+// Changes that affect what drivers priced their bids on; the description and budget don't
+function hasMaterialChanges(existing: TransportRequest, updated: ReturnType<typeof toTransportRequestRecord>): boolean {
+  const sortedFlags = (flags: unknown) => JSON.stringify(Array.isArray(flags) ? [...flags].sort() : []);
+
+  return existing.pickupLocation !== updated.pickupLocation ||
+    existing.deliveryLocation !== updated.deliveryLocation ||
+    existing.pickupDate.getTime() !== updated.pickupDate.getTime() ||
+    existing.deliveryDate.getTime() !== updated.deliveryDate.getTime() ||
+    Number(existing.weight) !== Number(updated.weight) ||
+    existing.lengthCm !== updated.lengthCm ||
+    existing.widthCm !== updated.widthCm ||
+    existing.heightCm !== updated.heightCm ||
+    existing.quantity !== updated.quantity ||
+    existing.cargoCategory !== updated.cargoCategory ||
+    sortedFlags(existing.handlingFlags) !== sortedFlags(updated.handlingFlags) ||
+    existing.isMultipleStops !== updated.isMultipleStops ||
+    JSON.stringify(existing.stopLocations ?? []) !== JSON.stringify(updated.stopLocations);
+}
+
+// The budget is private to the client and admins, except on fixed-price requests where it is the published price
+function withoutPrivateBudget<T extends TransportRequest>(request: T): T | Omit<T, 'budget'> & { budget: undefined } {
+  return request.biddingMode === 'fixed_price' ? request : { ...request, budget: undefined };
+}
+
+// Price the driver agreed to: the accepted bid, or the client's budget if none was accepted
+async function getAgreedAmount(request: TransportRequest): Promise<number> {
+  const acceptedBid = (await storage.getBidsForRequest(request.id)).find(bid => bid.status === 'accepted');
+  return Number(acceptedBid ? acceptedBid.amount : request.budget);
+}
+
+const OPEN_AUCTION_ERRORS: Record<Extract<OpenAuctionBidResult, { ok: false }>["code"], { status: number; message: string }> = {
+  closed: { status: 400, message: "This request is no longer open for bidding" },
+  not_low_enough: { status: 400, message: "Your bid must undercut the current lowest bid by the minimum decrement" },
+  conflict: { status: 409, message: "Bid status changed, please refresh and try again" },
+};
+
+// Shared handling for the /api/admin/analytics endpoints: parse the range and options, run the query, map errors
+function analyticsHandler(description: string, query: (range: AnalyticsRange, options: AnalyticsQuery) => Promise<unknown>) {
+  return async (req: Request, res: Response) => {
+    try {
+      const options = analyticsQuerySchema.parse(req.query);
+      res.json(await query(resolveAnalyticsRange(options), options));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid analytics parameters", errors: error.errors });
+      }
+      console.error(`Error fetching ${description}:`, error);
+      res.status(500).json({ message: `Failed to fetch ${description}` });
+    }
+  };
+}
+
+// HTTP status for a single GPS point rejected by server/gpsValidation.ts
+const GPS_REJECTION_STATUS: Record<GpsRejectionReason, number> = {
+  request_not_found: 404,
+  not_assigned: 403,
+  request_not_active: 409,
+  invalid_coordinates: 400,
+  stale_timestamp: 400,
+  future_timestamp: 400,
+  before_assignment: 400,
+  out_of_order: 409,
+  impossible_speed: 400,
+};
+
+function toGpsTrackingRecord(submission: GpsTrackingSubmission, driverId: number): InsertGpsTracking {
+  const decimal = (value: number | null | undefined) => (value == null ? null : String(value));
+  return {
+    requestId: submission.requestId,
+    driverId,
+    latitude: String(submission.latitude),
+    longitude: String(submission.longitude),
+    speed: decimal(submission.speed),
+    heading: decimal(submission.heading),
+    accuracy: decimal(submission.accuracy),
+    status: submission.status,
+    estimatedArrival: submission.estimatedArrival ?? null,
+    batteryLevel: submission.batteryLevel ?? null,
+  };
+}
+
+// Postgres unique_violation, raised when a concurrent insert beats an existence check
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
   // Transport request routes
-  app.post('/api/transport-requests', isAuthenticated, async (req: any, res) => {
+  app.post('/api/transport-requests', isAuthenticated, requirePermission('requests:create'), requireVerifiedEmail, async (req: any, res) => {
     try {
       const user = req.user;
-      
-      if (!user || user.role !== 'client') {
-        return res.status(403).json({ message: "Only clients can create transport requests" });
-      }
-
-      // Create a schema that converts client data to proper database format
-      const serverRequestSchema = z.object({
-        pickupLocation: z.string(),
-        deliveryLocation: z.string(),
-        pickupDate: z.string(),
-        pickupTime: z.string(),
-        deliveryDate: z.string(),
-        deliveryTime: z.string(),
-        itemDescription: z.string(),
-        weight: z.number(),
-        dimensions: z.string(),
-        budget: z.number(),
-        isMultipleStops: z.boolean().optional(),
-        stopLocations: z.array(z.string()).optional(),
-      });
-      
-      const clientData = serverRequestSchema.parse(req.body);
-      
-      // Convert separate date/time fields to Date objects
-      const pickupDateTime = new Date(`${clientData.pickupDate}T${clientData.pickupTime}`);
-      const deliveryDateTime = new Date(`${clientData.deliveryDate}T${clientData.deliveryTime}`);
-      
+
+      const record = toTransportRequestRecord(serverRequestSchema.parse(req.body));
+      const deadlineError = getBiddingDeadlineError(record);
+      if (deadlineError) {
+        return res.status(400).json({ message: deadlineError });
+      }
+
       const request = await storage.createTransportRequest({
-        pickupLocation: clientData.pickupLocation,
-        deliveryLocation: clientData.deliveryLocation,
-        pickupDate: pickupDateTime,
-        deliveryDate: deliveryDateTime,
-        itemDescription: clientData.itemDescription,
-        weight: clientData.weight.toString(),
-        dimensions: clientData.dimensions,
-        budget: clientData.budget.toString(),
-        isMultipleStops: clientData.isMultipleStops || false,
-        stopLocations: (clientData.isMultipleStops && clientData.stopLocations) ? 
-          clientData.stopLocations.filter(location => location.trim() !== '') : [],
+        ...record,
         clientId: user.id,
       });
       
       res.json(request);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transport request data", errors: error.errors });
+      }
       console.error("Error creating transport request:", error);
       res.status(500).json({ message: "Failed to create transport request" });
     }
@@ -72,19 +221,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       let requests;
-      if (user.role === 'client') {
-        requests = await storage.getTransportRequestsForClient(user.id);
-      } else if (user.role === 'driver') {
-        // Drivers see all pending requests but without budget info
-        requests = await storage.getTransportRequests();
-        requests = requests
-          .filter(req => req.status === 'pending')
-          .map(req => ({ ...req, budget: undefined }));
-      } else if (user.role === 'admin') {
+      if (hasPermission(user.role, 'requests:view_all')) {
         requests = await storage.getTransportRequests();
+      } else if (hasPermission(user.role, 'requests:view_open')) {
+        // Drivers see all pending requests, marked with whether one of their vehicles can carry them
+        const [allRequests, driverVehicles] = await Promise.all([
+          storage.getTransportRequests(),
+          storage.getVehiclesForDriver(user.id),
+        ]);
+        requests = allRequests
+          .filter(req => isBiddingOpen(req))
+          .map(req => {
+            const { eligible, reason } = checkCapacity(req, driverVehicles);
+            return { ...req, eligibility: { eligible, reason } };
+          });
+      } else if (hasPermission(user.role, 'requests:view_own')) {
+        requests = await storage.getTransportRequestsForClient(user.id);
       } else {
         return res.status(403).json({ message: "Unauthorized" });
       }
+
+      if (!hasPermission(user.role, 'requests:view_budget')) {
+        requests = requests.map(req => withoutPrivateBudget(req));
+      }
       
       res.json(requests);
     } catch (error) {
@@ -109,13 +268,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      if (user.role === 'client' && request.clientId !== user.id) {
+      const canView = hasPermission(user.role, 'requests:view_all') ||
+        hasPermission(user.role, 'requests:view_open') ||
+        (hasPermission(user.role, 'requests:view_own') && request.clientId === user.id);
+      if (!canView) {
         return res.status(403).json({ message: "Unauthorized" });
       }
       
-      if (user.role === 'driver') {
-        // Hide budget from drivers
-        res.json({ ...request, budget: undefined });
+      if (!hasPermission(user.role, 'requests:view_budget')) {
+        res.json(withoutPrivateBudget(request));
       } else {
         res.json(request);
       }
@@ -125,46 +286,398 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/transport-requests/:id/assign', isAuthenticated, async (req: any, res) => {
+  app.get('/api/transport-requests/:id/history', isAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
       const requestId = parseInt(req.params.id);
-      const { driverId } = req.body;
-      
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can assign drivers" });
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
       }
 
-      const request = await storage.updateTransportRequestStatus(requestId, 'assigned', parseInt(driverId));
-      
-      // Update bid status
-      const bids = await storage.getBidsForRequest(requestId);
-      for (const bid of bids) {
-        if (bid.driverId === parseInt(driverId)) {
-          await storage.updateBidStatus(bid.id, 'accepted');
-        } else {
-          await storage.updateBidStatus(bid.id, 'rejected');
-        }
+      const canView = hasPermission(user.role, 'requests:view_all') ||
+        (hasPermission(user.role, 'requests:view_own') && request.clientId === user.id) ||
+        request.assignedDriverId === user.id;
+      if (!canView) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const history = await storage.getStatusHistoryForRequest(requestId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching request status history:", error);
+      res.status(500).json({ message: "Failed to fetch request status history" });
+    }
+  });
+
+  // Reviews on a completed request: the client rates the driver and the driver rates the client, once each
+  app.get('/api/transport-requests/:id/reviews', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const requestId = parseInt(req.params.id);
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const isParticipant = request.clientId === user.id || request.assignedDriverId === user.id;
+      if (!isParticipant && !hasPermission(user.role, 'requests:view_all')) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const requestReviews = await storage.getReviewsForRequest(requestId);
+      res.json({
+        reviews: requestReviews,
+        canReview: isParticipant &&
+          request.status === 'completed' &&
+          hasPermission(user.role, 'reviews:create') &&
+          !requestReviews.some(review => review.reviewerId === user.id),
+      });
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post('/api/transport-requests/:id/reviews', isAuthenticated, requirePermission('reviews:create'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const requestId = parseInt(req.params.id);
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const isClient = request.clientId === user.id;
+      if (!isClient && request.assignedDriverId !== user.id) {
+        return res.status(403).json({ message: "Only the client and the driver of a request can review it" });
+      }
+      if (request.status !== 'completed' || !request.assignedDriverId) {
+        return res.status(400).json({ message: "Reviews can only be left once the delivery is completed" });
+      }
+
+      const reviewData = createReviewSchema.parse(req.body);
+      if (isClient && (!reviewData.punctuality || !reviewData.care || !reviewData.communication)) {
+        return res.status(400).json({ message: "Rate the driver's punctuality, care and communication" });
+      }
+
+      const review = await storage.createReview({
+        requestId,
+        reviewerId: user.id,
+        revieweeId: isClient ? request.assignedDriverId : request.clientId,
+        rating: reviewData.rating,
+        punctuality: isClient ? reviewData.punctuality : null,
+        care: isClient ? reviewData.care : null,
+        communication: isClient ? reviewData.communication : null,
+        comment: reviewData.comment,
+      });
+
+      res.json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You have already reviewed this request" });
+      }
+      console.error("Error creating review:", error);
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  // Clients may edit their own request until a driver is assigned
+  app.patch('/api/transport-requests/:id', isAuthenticated, requirePermission('requests:edit_own'), async (req: any, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+
+      const existingRequest = await storage.getTransportRequestById(requestId);
+      if (!existingRequest || existingRequest.clientId !== req.user.id) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      if (existingRequest.status !== 'pending') {
+        return res.status(400).json({ message: "Only pending requests can be edited" });
+      }
+
+      const record = toTransportRequestRecord(serverRequestSchema.parse(req.body));
+      const materialChange = hasMaterialChanges(existingRequest, record);
+
+      // The edit form doesn't pin the pickup; keep the existing pin unless the pickup itself moved
+      if (record.pickupLatitude === null && existingRequest.pickupLocation === record.pickupLocation) {
+        record.pickupLatitude = existingRequest.pickupLatitude;
+        record.pickupLongitude = existingRequest.pickupLongitude;
+      }
+
+      // An unchanged deadline may already have passed; a changed one reopens bidding
+      const deadlineChanged = existingRequest.biddingClosesAt?.getTime() !== record.biddingClosesAt?.getTime();
+      const modeChanged = existingRequest.biddingMode !== record.biddingMode;
+      const deadlineError = deadlineChanged || modeChanged ? getBiddingDeadlineError(record) : null;
+      if (deadlineError) {
+        return res.status(400).json({ message: deadlineError });
+      }
+
+      // Bids placed under another mode can't be accepted once the request becomes fixed-price
+      const result = await storage.updatePendingTransportRequest(
+        requestId,
+        deadlineChanged ? { ...record, biddingClosedAt: null } : record,
+        materialChange || (modeChanged && record.biddingMode === 'fixed_price'),
+      );
+      if (!result) {
+        return res.status(409).json({ message: "Request status changed, please refresh and try again" });
+      }
+
+      for (const bid of result.invalidatedBids) {
+        await publishBidUpdate(bid);
+      }
+      if (result.invalidatedBids.length > 0) {
+        await notifyDrivers(result.invalidatedBids.map(bid => bid.driverId), {
+          subject: `REQ-${requestId} was changed by the client`,
+          text: `The client changed the details of REQ-${requestId} (${record.pickupLocation} → ${record.deliveryLocation}) after you bid, so your bid has been withdrawn. Please review the updated request and bid again if it still suits you.`,
+        });
+      }
+
+      res.json({ ...result.request, invalidatedBids: result.invalidatedBids.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transport request data", errors: error.errors });
+      }
+      console.error("Error updating transport request:", error);
+      res.status(500).json({ message: "Failed to update transport request" });
+    }
+  });
+
+  // Fee the client would be charged for cancelling now (shown before they confirm)
+  app.get('/api/transport-requests/:id/cancellation-fee', isAuthenticated, requirePermission('requests:cancel_own'), async (req: any, res) => {
+    try {
+      const request = await storage.getTransportRequestById(parseInt(req.params.id));
+      if (!request || request.clientId !== req.user.id) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const fee = calculateCancellationFee({
+        status: request.status,
+        pickupDate: request.pickupDate,
+        agreedAmount: await getAgreedAmount(request),
+      });
+      res.json({ fee, cancellable: getAvailableTransitions(request, req.user).includes('cancelled') });
+    } catch (error) {
+      console.error("Error calculating cancellation fee:", error);
+      res.status(500).json({ message: "Failed to calculate cancellation fee" });
+    }
+  });
+
+  app.post('/api/transport-requests/:id/cancel', isAuthenticated, requirePermission('requests:cancel_own'), async (req: any, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { reason } = cancelRequestSchema.parse(req.body);
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request || request.clientId !== req.user.id) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const check = checkStatusTransition(request, 'cancelled', req.user, { reason }, 'cancel');
+      if (!check.ok) {
+        return res.status(check.code === 'forbidden' ? 403 : 400).json({ message: check.message });
+      }
+
+      const fee = calculateCancellationFee({
+        status: request.status,
+        pickupDate: request.pickupDate,
+        agreedAmount: await getAgreedAmount(request),
+      });
+      const bidsBeforeCancel = await storage.getBidsForRequest(requestId);
+
+      const cancelledRequest = await storage.transitionTransportRequestStatus(requestId, {
+        from: request.status,
+        to: 'cancelled',
+        actorId: req.user.id,
+        reason,
+        cancellationFee: fee > 0 ? fee.toFixed(2) : null,
+      });
+      if (!cancelledRequest) {
+        return res.status(409).json({ message: "Request status changed, please refresh and try again" });
+      }
+      await publishStatusUpdate(cancelledRequest, request.status);
+      await broadcastAuctionUpdate(cancelledRequest);
+
+      await notifyDrivers(
+        bidsBeforeCancel.filter(bid => bid.status !== 'invalidated' && bid.status !== 'withdrawn').map(bid => bid.driverId),
+        {
+          subject: `REQ-${requestId} was cancelled by the client`,
+          text: `The client cancelled REQ-${requestId} (${request.pickupLocation} → ${request.deliveryLocation}).\n\nReason: ${reason}`,
+        },
+      );
+
+      res.json(cancelledRequest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A cancellation reason is required", errors: error.errors });
+      }
+      console.error("Error cancelling transport request:", error);
+      res.status(500).json({ message: "Failed to cancel transport request" });
+    }
+  });
+
+  app.patch('/api/transport-requests/:id/assign', isAuthenticated, requirePermission('requests:assign'), async (req: any, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { driverId, version } = assignDriverSchema.parse(req.body);
+
+      const existingRequest = await storage.getTransportRequestById(requestId);
+      if (!existingRequest) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const check = checkStatusTransition(existingRequest, 'assigned', req.user, { assignedDriverId: driverId }, 'assign');
+      if (!check.ok) {
+        return res.status(check.code === 'forbidden' ? 403 : 400).json({ message: check.message });
+      }
+
+      // Drivers are assigned through their bid so the bid states always match the assignment
+      const driverBid = (await storage.getBidsForRequest(requestId))
+        .find(bid => bid.driverId === driverId && (bid.status === 'pending' || bid.status === 'client_selected'));
+      if (!driverBid) {
+        return res.status(400).json({ message: "This driver has no open bid on the request" });
+      }
+
+      const result = await storage.acceptBid(driverBid.id, { actorId: req.user.id, expectedVersion: version });
+      if (!result) {
+        return res.status(409).json({ message: "Request was changed by someone else, please refresh and try again" });
       }
       
-      res.json(request);
+      await publishAssignment(result, existingRequest.status);
+      res.json(result.request);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid driver", errors: error.errors });
+      }
       console.error("Error assigning driver:", error);
       res.status(500).json({ message: "Failed to assign driver" });
     }
   });
 
+  // The owning client accepts a bid; clients flagged for approval only mark their choice for an admin
+  app.post('/api/bids/:id/accept', isAuthenticated, requirePermission('bids:accept_own'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const bidId = parseInt(req.params.id);
+      const { version } = acceptBidSchema.parse(req.body ?? {});
+
+      const bid = await storage.getBidById(bidId);
+      const request = bid ? await storage.getTransportRequestById(bid.requestId) : undefined;
+      if (!bid || !request || request.clientId !== user.id) {
+        return res.status(404).json({ message: "Bid not found" });
+      }
+      if (bid.status !== 'pending' && bid.status !== 'client_selected') {
+        return res.status(400).json({ message: "This bid is no longer open" });
+      }
+
+      const check = checkStatusTransition(request, 'assigned', user, { assignedDriverId: bid.driverId }, 'accept');
+      if (!check.ok) {
+        return res.status(check.code === 'forbidden' ? 403 : 400).json({ message: check.message });
+      }
+
+      if (user.bidApprovalRequired) {
+        const selectedBid = await storage.selectBidForApproval(bid);
+        await publishBidUpdate(selectedBid);
+        return res.json({ status: 'awaiting_approval', bid: selectedBid });
+      }
+
+      const result = await storage.acceptBid(bid.id, { actorId: user.id, expectedVersion: version });
+      if (!result) {
+        return res.status(409).json({ message: "Request was changed by someone else, please refresh and try again" });
+      }
+
+      await notifyDrivers([bid.driverId], {
+        subject: `Your bid on REQ-${request.id} was accepted`,
+        text: `The client accepted your bid of R${bid.amount} for REQ-${request.id} (${request.pickupLocation} → ${request.deliveryLocation}). Pickup is scheduled for ${request.pickupDate.toLocaleString()}.`,
+      });
+      await publishAssignment(result, request.status);
+
+      res.json({ status: 'assigned', request: result.request });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request version", errors: error.errors });
+      }
+      console.error("Error accepting bid:", error);
+      res.status(500).json({ message: "Failed to accept bid" });
+    }
+  });
+
+  // Fixed-price requests go to the first eligible driver who claims them
+  app.post('/api/transport-requests/:id/claim', isAuthenticated, requirePermission('requests:claim'), requireVerifiedEmail, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const requestId = parseInt(req.params.id);
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      if (request.biddingMode !== 'fixed_price') {
+        return res.status(400).json({ message: "Only fixed-price requests can be claimed" });
+      }
+      if (!isBiddingOpen(request)) {
+        return res.status(409).json({ message: "This request has already been claimed or has closed" });
+      }
+
+      const check = checkStatusTransition(request, 'assigned', user, { assignedDriverId: user.id }, 'claim');
+      if (!check.ok) {
+        return res.status(check.code === 'forbidden' ? 403 : 400).json({ message: check.message });
+      }
+
+      const capacity = checkCapacity(request, await storage.getVehiclesForDriver(user.id));
+      if (!capacity.eligible) {
+        return res.status(400).json({ message: capacity.reason });
+      }
+
+      const result = await storage.claimFixedPriceRequest(requestId, user.id, new Date());
+      if (!result) {
+        return res.status(409).json({ message: "Another driver claimed this request first" });
+      }
+      await publishAssignment(result, request.status);
+
+      await notifyUser(request.clientId, {
+        subject: `REQ-${requestId} was booked`,
+        text: `${[user.firstName, user.lastName].filter(Boolean).join(" ") || "A driver"} booked REQ-${requestId} (${request.pickupLocation} → ${request.deliveryLocation}) at your fixed price of R${request.budget}.`,
+      });
+
+      res.json(result.request);
+    } catch (error) {
+      console.error("Error claiming transport request:", error);
+      res.status(500).json({ message: "Failed to claim transport request" });
+    }
+  });
+
   // Bid routes
-  app.post('/api/bids', isAuthenticated, async (req: any, res) => {
+  app.post('/api/bids', isAuthenticated, requirePermission('bids:create'), requireVerifiedEmail, async (req: any, res) => {
     try {
       const user = req.user;
-      
-      if (!user || user.role !== 'driver') {
-        return res.status(403).json({ message: "Only drivers can create bids" });
+
+      const { requestId, amount, message } = placeBidSchema.parse(req.body);
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      if (!isBiddingOpen(request)) {
+        return res.status(400).json({ message: "This request is no longer open for bidding" });
+      }
+      if (request.biddingMode === 'fixed_price') {
+        return res.status(400).json({ message: "Fixed-price requests are claimed, not bid on" });
       }
 
-      // Convert client data to database format
-      const { requestId, amount, message } = req.body;
+      const capacity = checkCapacity(request, await storage.getVehiclesForDriver(user.id));
+      if (!capacity.eligible) {
+        return res.status(400).json({ message: capacity.reason });
+      }
+
+      if (await storage.getActiveBidForDriver(requestId, user.id)) {
+        return res.status(409).json({ message: "You already have an active bid on this request" });
+      }
       
       const bidToCreate = {
         requestId,
@@ -173,17 +686,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // estimatedDelivery is now optional, omit it to allow NULL
         driverId: user.id,
       };
+
+      if (request.biddingMode === 'open_auction') {
+        const result = await storage.submitOpenAuctionBid(bidToCreate, new Date());
+        if (!result.ok) {
+          const { status, message } = OPEN_AUCTION_ERRORS[result.code];
+          return res.status(status).json({ message, maximumAllowedBid: result.maximumAllowedBid });
+        }
+        await publishBidUpdate(result.bid);
+        await broadcastAuctionUpdate(result.request);
+        return res.json(result.bid);
+      }
       
       const bid = await storage.createBid(bidToCreate);
+      await publishBidUpdate(bid);
       
       res.json(bid);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bid", errors: error.errors });
+      }
+      // A concurrent submission won the one-active-bid unique index
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You already have an active bid on this request" });
+      }
       console.error("Error creating bid:", error);
       res.status(500).json({ message: "Failed to create bid" });
     }
   });
 
-  app.get('/api/bids/request/:requestId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/bids/:id', isAuthenticated, requirePermission('bids:edit_own'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const bidId = parseInt(req.params.id);
+      const { amount, message } = reviseBidSchema.parse(req.body);
+
+      const bid = await storage.getBidById(bidId);
+      if (!bid || bid.driverId !== user.id) {
+        return res.status(404).json({ message: "Bid not found" });
+      }
+      if (bid.status !== 'pending') {
+        return res.status(400).json({ message: "Only pending bids can be revised" });
+      }
+      const request = await storage.getTransportRequestById(bid.requestId);
+      if (!request || !isBiddingOpen(request)) {
+        return res.status(400).json({ message: "Bidding on this request has closed" });
+      }
+
+      const changes = {
+        amount: amount.toString(),
+        message: message === undefined ? bid.message : message || null,
+      };
+
+      if (request.biddingMode === 'open_auction') {
+        const result = await storage.submitOpenAuctionBid(
+          { ...changes, requestId: request.id, driverId: user.id, revisingBidId: bidId },
+          new Date(),
+        );
+        if (!result.ok) {
+          const { status, message } = OPEN_AUCTION_ERRORS[result.code];
+          return res.status(status).json({ message, maximumAllowedBid: result.maximumAllowedBid });
+        }
+        await publishBidUpdate(result.bid);
+        await broadcastAuctionUpdate(result.request);
+        return res.json(result.bid);
+      }
+
+      const revisedBid = await storage.reviseBid(bidId, changes);
+      if (!revisedBid) {
+        return res.status(409).json({ message: "Bid status changed, please refresh and try again" });
+      }
+      await publishBidUpdate(revisedBid);
+
+      res.json(revisedBid);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bid", errors: error.errors });
+      }
+      console.error("Error revising bid:", error);
+      res.status(500).json({ message: "Failed to revise bid" });
+    }
+  });
+
+  app.post('/api/bids/:id/withdraw', isAuthenticated, requirePermission('bids:edit_own'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const bidId = parseInt(req.params.id);
+
+      const bid = await storage.getBidById(bidId);
+      if (!bid || bid.driverId !== user.id) {
+        return res.status(404).json({ message: "Bid not found" });
+      }
+      if (bid.status !== 'pending' && bid.status !== 'client_selected') {
+        return res.status(400).json({ message: "Only open bids can be withdrawn" });
+      }
+
+      const withdrawnBid = await storage.withdrawBid(bidId);
+      if (!withdrawnBid) {
+        return res.status(409).json({ message: "Bid status changed, please refresh and try again" });
+      }
+      await publishBidUpdate(withdrawnBid);
+
+      const request = await storage.getTransportRequestById(bid.requestId);
+      if (request) {
+        await broadcastAuctionUpdate(request);
+      }
+
+      res.json(withdrawnBid);
+    } catch (error) {
+      console.error("Error withdrawing bid:", error);
+      res.status(500).json({ message: "Failed to withdraw bid" });
+    }
+  });
+
+  // Open-auction standing: the lowest bid, plus the caller's own bid and rank when they are a bidder
+  app.get('/api/transport-requests/:id/auction', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const request = await storage.getTransportRequestById(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const canView = hasPermission(user.role, 'requests:view_all') ||
+        hasPermission(user.role, 'requests:view_open') ||
+        (hasPermission(user.role, 'requests:view_own') && request.clientId === user.id);
+      if (!canView) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (request.biddingMode !== 'open_auction') {
+        return res.status(400).json({ message: "This request is not an open auction" });
+      }
+
+      res.json(getAuctionState(request, await storage.getBidsForRequest(request.id), user.id));
+    } catch (error) {
+      console.error("Error fetching auction state:", error);
+      res.status(500).json({ message: "Failed to fetch auction state" });
+    }
+  });
+
+  // Revision history of a bid, for the bidding driver, the request owner and admins
+  app.get('/api/bids/:id/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const bidId = parseInt(req.params.id);
+
+      const bid = await storage.getBidById(bidId);
+      const request = bid ? await storage.getTransportRequestById(bid.requestId) : undefined;
+      if (!bid || !request) {
+        return res.status(404).json({ message: "Bid not found" });
+      }
+
+      const canView = bid.driverId === user.id ||
+        hasPermission(user.role, 'requests:view_all') ||
+        (hasPermission(user.role, 'bids:view_request') && request.clientId === user.id);
+      if (!canView) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      res.json(await storage.getBidRevisions(bidId));
+    } catch (error) {
+      console.error("Error fetching bid revisions:", error);
+      res.status(500).json({ message: "Failed to fetch bid revisions" });
+    }
+  });
+
+  app.get('/api/bids/request/:requestId', isAuthenticated, requirePermission('bids:view_request'), async (req: any, res) => {
     try {
       const user = req.user;
       const requestId = parseInt(req.params.requestId);
@@ -199,29 +867,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
-      if (user.role === 'client' && request.clientId !== user.id) {
+      if (!hasPermission(user.role, 'requests:view_all') && request.clientId !== user.id) {
         return res.status(403).json({ message: "Unauthorized" });
       }
-      
-      if (user.role === 'driver') {
-        return res.status(403).json({ message: "Drivers cannot view bids" });
-      }
 
       const bids = await storage.getBidsForRequest(requestId);
-      res.json(bids);
+      if (req.query.sort !== 'score') {
+        return res.json(bids);
+      }
+
+      const scoredBids = await scoreBids(request, bids);
+      res.json(hasPermission(user.role, 'bids:view_scores')
+        ? scoredBids
+        : scoredBids.map(({ scoreBreakdown, ...bid }) => bid));
     } catch (error) {
       console.error("Error fetching bids:", error);
       res.status(500).json({ message: "Failed to fetch bids" });
     }
   });
 
-  app.get('/api/bids/driver', isAuthenticated, async (req: any, res) => {
+  app.get('/api/bids/driver', isAuthenticated, requirePermission('bids:view_own'), async (req: any, res) => {
     try {
       const user = req.user;
-      
-      if (!user || user.role !== 'driver') {
-        return res.status(403).json({ message: "Only drivers can view their bids" });
-      }
 
       const bids = await storage.getBidsForDriver(user.id);
       res.json(bids);
@@ -232,14 +899,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes
-  app.get('/api/admin/stats', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/stats', isAuthenticated, requirePermission('admin:stats'), async (req: any, res) => {
     try {
-      const user = req.user;
-      
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view stats" });
-      }
-
       const stats = await storage.getAdminStats();
       res.json(stats);
     } catch (error) {
@@ -248,15 +909,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Reassign request (admin only)
-  app.patch('/api/transport-requests/:id/reassign', isAuthenticated, async (req: any, res) => {
+  // Analytics over requests created in ?from..?to (default: the last 30 days)
+  app.get('/api/admin/analytics/summary', isAuthenticated, requirePermission('admin:stats'),
+    analyticsHandler("analytics summary", (range) => getAnalyticsSummary(range)));
+
+  app.get('/api/admin/analytics/timeseries', isAuthenticated, requirePermission('admin:stats'),
+    analyticsHandler("analytics time series", (range, { granularity }) => storage.getAnalyticsTimeSeries(range, granularity)));
+
+  app.get('/api/admin/analytics/top-drivers', isAuthenticated, requirePermission('admin:stats'),
+    analyticsHandler("top drivers", (range, { limit }) => storage.getTopDrivers(range, limit)));
+
+  app.get('/api/admin/analytics/routes', isAuthenticated, requirePermission('admin:stats'),
+    analyticsHandler("popular routes", (range, { limit }) => storage.getPopularRoutes(range, limit)));
+
+  app.get('/api/admin/analytics/activity', isAuthenticated, requirePermission('admin:stats'),
+    analyticsHandler("request activity", (range) => getActivityBreakdown(range)));
+
+  app.get('/api/admin/analytics/bid-response-times', isAuthenticated, requirePermission('admin:stats'),
+    analyticsHandler("bid response times", (range) => storage.getBidResponseTimes(range)));
+
+  // User management (admin only)
+  app.get('/api/admin/users', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
     try {
-      const user = req.user;
-      const requestId = parseInt(req.params.id);
+      const { search, role, page, pageSize } = adminUserListQuerySchema.parse(req.query);
 
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can reassign requests" });
+      const result = await storage.listUsers({
+        search: search || undefined,
+        role: role && role !== 'all' ? role : undefined,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+
+      res.json({
+        users: result.users.map(user => ({ ...user, password: undefined })),
+        total: result.total,
+        page,
+        pageSize,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
       }
+      console.error("Error listing users:", error);
+      res.status(500).json({ message: "Failed to list users" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id/role', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { role } = updateUserRoleSchema.parse(req.body);
+
+      if (userId === req.user.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.updateUserRole(userId, role);
+      await revokeRealtimeAccess(userId);
+      res.json({ ...updatedUser, password: undefined });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role", errors: error.errors });
+      }
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  app.get('/api/admin/settings/bid-scoring', isAuthenticated, requirePermission('settings:manage'), async (req: any, res) => {
+    try {
+      res.json(await getBidScoringWeights());
+    } catch (error) {
+      console.error("Error fetching bid scoring weights:", error);
+      res.status(500).json({ message: "Failed to fetch bid scoring weights" });
+    }
+  });
+
+  app.put('/api/admin/settings/bid-scoring', isAuthenticated, requirePermission('settings:manage'), async (req: any, res) => {
+    try {
+      const weights = bidScoringWeightsSchema.parse(req.body);
+      res.json(await updateBidScoringWeights(weights, req.user.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bid scoring weights", errors: error.errors });
+      }
+      console.error("Error updating bid scoring weights:", error);
+      res.status(500).json({ message: "Failed to update bid scoring weights" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id/bid-approval', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { required } = updateBidApprovalSchema.parse(req.body);
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.setBidApprovalRequired(userId, required);
+      res.json({ ...updatedUser, password: undefined });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid approval setting", errors: error.errors });
+      }
+      console.error("Error updating bid approval setting:", error);
+      res.status(500).json({ message: "Failed to update bid approval setting" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/deactivate', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+
+      if (userId === req.user.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.setUserActive(userId, false);
+      await storage.deleteSessionsForUser(userId);
+      await revokeRealtimeAccess(userId);
+      res.json({ ...updatedUser, password: undefined });
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/reactivate', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.setUserActive(userId, true);
+      res.json({ ...updatedUser, password: undefined });
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+      res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  });
+
+  // Force logout by removing every stored session for the user
+  app.post('/api/admin/users/:id/logout', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.deleteSessionsForUser(userId);
+      res.json({ message: "User has been logged out" });
+    } catch (error) {
+      console.error("Error logging out user:", error);
+      res.status(500).json({ message: "Failed to log out user" });
+    }
+  });
+
+  // Clear a user's login lockout (admin only)
+  app.post('/api/admin/users/:id/unlock', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await clearFailedLogins(user.email);
+      res.json({ message: "Account unlocked" });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
+  // Reassign request (admin only)
+  app.patch('/api/transport-requests/:id/reassign', isAuthenticated, requirePermission('requests:reassign'), async (req: any, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { reason } = reassignRequestSchema.parse(req.body ?? {});
 
       const request = await storage.getTransportRequestById(requestId);
       
@@ -264,33 +1112,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Request not found" });
       }
 
-      if (request.status !== 'assigned' && request.status !== 'in_progress') {
+      if (!checkStatusTransition(request, 'pending', req.user, {}, 'reassign').ok) {
         return res.status(400).json({ message: "Only assigned or in-progress requests can be reassigned" });
       }
 
-      const updatedRequest = await storage.reassignTransportRequest(requestId);
+      const updatedRequest = await storage.reassignTransportRequest(requestId, {
+        from: request.status,
+        to: 'pending',
+        actorId: req.user.id,
+        reason,
+      });
+      if (!updatedRequest) {
+        return res.status(409).json({ message: "Request status changed, please refresh and try again" });
+      }
+      await publishStatusUpdate(updatedRequest, request.status);
+      await broadcastAuctionUpdate(updatedRequest);
       res.json(updatedRequest);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reassignment reason", errors: error.errors });
+      }
       console.error("Error reassigning request:", error);
       res.status(500).json({ message: "Failed to reassign request" });
     }
   });
 
-  // Update request status (admin only)
+  // Update request status; who may make which change is decided by the shared state machine. Assignments, claims,
+  // owner cancellations and reassignments are refused here and go through their own endpoints.
   app.patch('/api/transport-requests/:id/status', isAuthenticated, async (req: any, res) => {
     try {
-      const user = req.user;
       const requestId = parseInt(req.params.id);
-      const { status } = req.body;
-
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update request status" });
-      }
-
-      const validStatuses = ['pending', 'assigned', 'in_progress', 'completed', 'cancelled'];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
-      }
+      const { status, reason } = updateRequestStatusSchema.parse(req.body);
 
       const request = await storage.getTransportRequestById(requestId);
       
@@ -298,100 +1150,274 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Request not found" });
       }
 
-      const updatedRequest = await storage.updateTransportRequestStatus(requestId, status);
+      const check = checkStatusTransition(request, status, req.user, { reason });
+      if (!check.ok) {
+        return res.status(check.code === 'forbidden' ? 403 : 400).json({ message: check.message });
+      }
+
+      const updatedRequest = await storage.transitionTransportRequestStatus(requestId, {
+        from: request.status,
+        to: status,
+        actorId: req.user.id,
+        reason,
+      });
+      if (!updatedRequest) {
+        return res.status(409).json({ message: "Request status changed, please refresh and try again" });
+      }
+      await publishStatusUpdate(updatedRequest, request.status);
+      await broadcastAuctionUpdate(updatedRequest);
       res.json(updatedRequest);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status update", errors: error.errors });
+      }
       console.error("Error updating request status:", error);
       res.status(500).json({ message: "Failed to update request status" });
     }
   });
 
   // Get driver profile information
-  app.get('/api/drivers/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/drivers/:id', isAuthenticated, requirePermission('drivers:view_profile'), async (req: any, res) => {
     try {
-      const user = req.user;
       const driverId = parseInt(req.params.id);
 
-      if (!user) {
-        return res.status(401).json({ message: "User not found" });
-      }
-
-      // Only admins and clients can view driver profiles
-      if (user.role !== 'admin' && user.role !== 'client') {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const driver = await storage.getUserById(driverId);
       
       if (!driver || driver.role !== 'driver') {
         return res.status(404).json({ message: "Driver not found" });
       }
 
+      const [driverVehicles, categoryAverages, recentReviews] = await Promise.all([
+        storage.getVehiclesForDriver(driverId),
+        storage.getReviewCategoryAverages(driverId),
+        storage.getRecentReviewsForUser(driverId, 5),
+      ]);
+
       // Return basic driver information (no sensitive data like password)
-      res.json({
+      const profile: DriverProfile = {
         id: driver.id,
         firstName: driver.firstName,
         lastName: driver.lastName,
         email: driver.email,
         role: driver.role,
         createdAt: driver.createdAt,
-      });
+        vehicles: driverVehicles,
+        rating: {
+          average: driver.ratingAverage === null ? null : Number(driver.ratingAverage),
+          count: driver.ratingCount,
+          categories: categoryAverages,
+        },
+        recentReviews,
+      };
+      res.json(profile);
     } catch (error) {
       console.error("Error fetching driver profile:", error);
       res.status(500).json({ message: "Failed to fetch driver profile" });
     }
   });
 
-  // GPS Tracking routes for real-time delivery tracking
-  app.post('/api/gps-tracking', isAuthenticated, async (req: any, res) => {
+  // Drivers can see their own metrics; clients and admins can see any driver's
+  app.get('/api/drivers/:id/metrics', isAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      
-      if (!user || user.role !== 'driver') {
-        return res.status(403).json({ message: "Only drivers can submit GPS tracking data" });
+      const driverId = parseInt(req.params.id);
+
+      if (driverId !== user.id && !hasPermission(user.role, 'drivers:view_profile')) {
+        return res.status(403).json({ message: "Unauthorized" });
       }
 
-      const trackingData = {
-        ...req.body,
-        driverId: user.id,
-        latitude: parseFloat(req.body.latitude),
-        longitude: parseFloat(req.body.longitude),
-        speed: req.body.speed ? parseFloat(req.body.speed) : null,
-        heading: req.body.heading ? parseFloat(req.body.heading) : null,
-        accuracy: req.body.accuracy ? parseFloat(req.body.accuracy) : null,
-      };
+      const driver = await storage.getUserById(driverId);
+      if (!driver || driver.role !== 'driver') {
+        return res.status(404).json({ message: "Driver not found" });
+      }
 
-      const tracking = await storage.createGpsTracking(trackingData);
-      
-      // Broadcast location update to WebSocket clients
-      if (wss) {
-        const message = JSON.stringify({
-          type: 'location_update',
-          requestId: tracking.requestId,
-          driverId: tracking.driverId,
-          latitude: tracking.latitude,
-          longitude: tracking.longitude,
-          status: tracking.status,
-          timestamp: tracking.timestamp
-        });
-        
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(message);
-          }
-        });
+      res.json(await getDriverMetrics(driverId));
+    } catch (error) {
+      console.error("Error fetching driver metrics:", error);
+      res.status(500).json({ message: "Failed to fetch driver metrics" });
+    }
+  });
+
+  // Vehicle routes (drivers manage their own vehicles)
+  const toVehicleRecord = (vehicle: VehicleInput) => ({
+    type: vehicle.type,
+    make: vehicle.make,
+    model: vehicle.model,
+    licensePlate: vehicle.licensePlate.toUpperCase(),
+    maxPayloadKg: vehicle.maxPayloadKg.toString(),
+    volumeM3: vehicle.volumeM3 !== undefined ? vehicle.volumeM3.toString() : null,
+    loadLengthCm: vehicle.loadLengthCm ?? null,
+    loadWidthCm: vehicle.loadWidthCm ?? null,
+    loadHeightCm: vehicle.loadHeightCm ?? null,
+    colour: vehicle.colour || null,
+    hasTailLift: vehicle.hasTailLift,
+    isRefrigerated: vehicle.isRefrigerated,
+  });
+
+  app.get('/api/vehicles', isAuthenticated, requirePermission('vehicles:manage'), async (req: any, res) => {
+    try {
+      const driverVehicles = await storage.getVehiclesForDriver(req.user.id);
+      res.json(driverVehicles);
+    } catch (error) {
+      console.error("Error fetching vehicles:", error);
+      res.status(500).json({ message: "Failed to fetch vehicles" });
+    }
+  });
+
+  app.post('/api/vehicles', isAuthenticated, requirePermission('vehicles:manage'), async (req: any, res) => {
+    try {
+      const vehicleData = vehicleSchema.parse(req.body);
+
+      const vehicle = await storage.createVehicle({
+        ...toVehicleRecord(vehicleData),
+        driverId: req.user.id,
+      });
+      res.json(vehicle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vehicle data", errors: error.errors });
       }
-      
+      console.error("Error creating vehicle:", error);
+      res.status(500).json({ message: "Failed to create vehicle" });
+    }
+  });
+
+  app.patch('/api/vehicles/:id', isAuthenticated, requirePermission('vehicles:manage'), async (req: any, res) => {
+    try {
+      const vehicleId = parseInt(req.params.id);
+
+      const vehicle = await storage.getVehicleById(vehicleId);
+      if (!vehicle || vehicle.driverId !== req.user.id) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const vehicleData = vehicleSchema.parse(req.body);
+      const updatedVehicle = await storage.updateVehicle(vehicleId, toVehicleRecord(vehicleData));
+      res.json(updatedVehicle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vehicle data", errors: error.errors });
+      }
+      console.error("Error updating vehicle:", error);
+      res.status(500).json({ message: "Failed to update vehicle" });
+    }
+  });
+
+  app.delete('/api/vehicles/:id', isAuthenticated, requirePermission('vehicles:manage'), async (req: any, res) => {
+    try {
+      const vehicleId = parseInt(req.params.id);
+
+      const vehicle = await storage.getVehicleById(vehicleId);
+      if (!vehicle || vehicle.driverId !== req.user.id) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      await storage.deleteVehicle(vehicleId);
+      res.json({ message: "Vehicle removed" });
+    } catch (error) {
+      console.error("Error deleting vehicle:", error);
+      res.status(500).json({ message: "Failed to delete vehicle" });
+    }
+  });
+
+  // GPS Tracking routes for real-time delivery tracking. Only the assigned driver may post fixes for a request
+  // while it is being delivered, and implausible fixes are rejected with a reason the device can show.
+  app.post('/api/gps-tracking', isAuthenticated, requirePermission('tracking:submit'), async (req: any, res) => {
+    try {
+      const submission = gpsTrackingSubmissionSchema.parse(req.body);
+      const timestamp = new Date();
+
+      const rejection = await createGpsValidator(req.user.id, timestamp)(submission.requestId, {
+        latitude: submission.latitude,
+        longitude: submission.longitude,
+        accuracy: submission.accuracy ?? null,
+        timestamp,
+      });
+      if (rejection) {
+        return res.status(GPS_REJECTION_STATUS[rejection.reason]).json(rejection);
+      }
+
+      const tracking = await storage.createGpsTracking({ ...toGpsTrackingRecord(submission, req.user.id), timestamp });
+      await publishLocation(tracking);
+
       res.json(tracking);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid GPS data", errors: error.errors });
+      }
       console.error("Error creating GPS tracking:", error);
       res.status(500).json({ message: "Failed to create GPS tracking" });
     }
   });
 
+  // Points buffered on the driver's device, uploaded oldest first. Each point is checked like a single fix and
+  // rejected points are reported rather than failing the upload. Retried uploads are safe: points already stored
+  // are skipped, and only new points reach live tracking.
+  app.post('/api/gps-tracking/batch', isAuthenticated, requirePermission('tracking:submit'), async (req: any, res) => {
+    try {
+      const { points } = gpsTrackingBatchSchema.parse(req.body);
+      const validate = createGpsValidator(req.user.id);
+
+      // A retried upload repeats points already stored; they are older than the latest fix, so they are counted as
+      // duplicates before validation would refuse them as out of order
+      const alreadyStored = new Set(await storage.getStoredGpsPointIds(req.user.id, points.map(point => point.clientPointId)));
+
+      const accepted: InsertGpsTracking[] = [];
+      const rejected: GpsBatchResult['rejected'] = [];
+      for (const point of points) {
+        if (alreadyStored.has(point.clientPointId)) continue;
+        const rejection = await validate(point.requestId, {
+          latitude: point.latitude,
+          longitude: point.longitude,
+          accuracy: point.accuracy ?? null,
+          timestamp: point.recordedAt,
+        });
+        if (rejection) {
+          rejected.push({ clientPointId: point.clientPointId, ...rejection });
+        } else {
+          accepted.push({ ...toGpsTrackingRecord(point, req.user.id), clientPointId: point.clientPointId, timestamp: point.recordedAt });
+        }
+      }
+
+      const stored = await storage.createGpsTrackingBatch(accepted);
+
+      // Watchers only need each request's newest position
+      const latestByRequest = new Map<number, GpsTracking>();
+      for (const tracking of stored) {
+        const latest = latestByRequest.get(tracking.requestId);
+        if (!latest || tracking.timestamp >= latest.timestamp) latestByRequest.set(tracking.requestId, tracking);
+      }
+      for (const tracking of Array.from(latestByRequest.values())) {
+        await publishLocation(tracking);
+      }
+
+      const result: GpsBatchResult = {
+        stored: stored.length,
+        duplicates: points.length - rejected.length - stored.length,
+        rejected,
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid GPS data", errors: error.errors });
+      }
+      console.error("Error storing GPS batch:", error);
+      res.status(500).json({ message: "Failed to store GPS points" });
+    }
+  });
+
   app.get('/api/gps-tracking/:requestId', isAuthenticated, async (req: any, res) => {
     try {
       const requestId = parseInt(req.params.requestId);
+
+      const request = await storage.getTransportRequestById(requestId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      if (!canFollowRequest(req.user, request)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
       const tracking = await storage.getGpsTrackingForRequest(requestId);
       res.json(tracking);
     } catch (error) {
@@ -403,6 +1429,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/gps-tracking/driver/:driverId', isAuthenticated, async (req: any, res) => {
     try {
       const driverId = parseInt(req.params.driverId);
+
+      // A driver's full trail spans every request they drove, so only they and admins may read it
+      if (driverId !== req.user.id && !hasPermission(req.user.role, 'requests:view_all')) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
       const tracking = await storage.getGpsTrackingForDriver(driverId);
       res.json(tracking);
     } catch (error) {
@@ -413,29 +1445,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
   
-  // WebSocket server for real-time GPS tracking
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws) => {
-    console.log('New WebSocket client connected');
-    
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        if (data.type === 'subscribe_tracking') {
-          // Subscribe client to tracking updates for specific request
-          (ws as any).requestId = data.requestId;
-        }
-      } catch (error) {
-        console.error('Error processing WebSocket message:', error);
-      }
+  setupRealtime(httpServer);
+
+  // Only sockets subscribed to the request's tracking topic receive the fix
+  async function publishLocation(tracking: GpsTracking) {
+    await publish(trackingTopic(tracking.requestId), 'location_update', {
+      requestId: tracking.requestId,
+      driverId: tracking.driverId,
+      latitude: tracking.latitude,
+      longitude: tracking.longitude,
+      speed: tracking.speed,
+      status: tracking.status,
+      timestamp: tracking.timestamp,
     });
-    
-    ws.on('close', () => {
-      console.log('WebSocket client disconnected');
+  }
+
+  // A bid accepted or claimed changes both the request and the bid; open-auction watchers see the auction close
+  async function publishAssignment(result: { request: TransportRequest; bid: Bid }, fromStatus: string) {
+    await publishStatusUpdate(result.request, fromStatus);
+    await publishBidUpdate(result.bid);
+    await broadcastAuctionUpdate(result.request);
+  }
+
+  // Open-auction watchers refresh their standing over HTTP, since ranks differ per driver
+  async function broadcastAuctionUpdate(request: TransportRequest) {
+    if (request.biddingMode !== 'open_auction') return;
+
+    const { bidCount, lowestAmount } = getAuctionState(request, await storage.getBidsForRequest(request.id), null);
+    await publish(AUCTIONS_TOPIC, 'auction_update', {
+      requestId: request.id,
+      status: request.status,
+      bidCount,
+      lowestAmount,
+      biddingClosesAt: request.biddingClosesAt,
     });
-  });
+  }
   
   return httpServer;
 }
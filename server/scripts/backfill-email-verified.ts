@@ -0,0 +1,31 @@
+// One-off backfill after `npm run db:push` adds `users.email_verified`.
+// Accounts created before email verification existed were never sent a link, so they are marked verified instead
+// of being locked out of requests, bids and claims. Accounts that were sent a link keep their current state.
+import { and, eq, notExists } from "drizzle-orm";
+import { db, pool } from "../db";
+import { authTokens, users } from "@shared/schema";
+
+async function backfill() {
+  const updated = await db
+    .update(users)
+    .set({ emailVerified: true, updatedAt: new Date() })
+    .where(and(
+      eq(users.emailVerified, false),
+      notExists(
+        db
+          .select({ id: authTokens.id })
+          .from(authTokens)
+          .where(and(eq(authTokens.userId, users.id), eq(authTokens.type, "email_verification"))),
+      ),
+    ))
+    .returning({ id: users.id });
+
+  console.log(`Marked ${updated.length} existing users as verified`);
+}
+
+backfill()
+  .catch((error) => {
+    console.error("Email verification backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
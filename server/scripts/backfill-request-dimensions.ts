@@ -0,0 +1,39 @@
+// One-off backfill after `npm run db:push` adds the structured dimension columns.
+// Parses the legacy free-text `dimensions` of each request; rows that can't be parsed keep null
+// dimensions and are reported so an admin can fix them by hand.
+import { eq, isNull } from "drizzle-orm";
+import { db, pool } from "../db";
+import { transportRequests } from "@shared/schema";
+import { parseDimensions } from "../capacity";
+
+async function backfill() {
+  const rows = await db
+    .select({ id: transportRequests.id, dimensions: transportRequests.dimensions })
+    .from(transportRequests)
+    .where(isNull(transportRequests.lengthCm));
+
+  const unparsed: number[] = [];
+  for (const row of rows) {
+    const dimensions = parseDimensions(row.dimensions);
+    if (!dimensions) {
+      unparsed.push(row.id);
+      continue;
+    }
+    await db
+      .update(transportRequests)
+      .set(dimensions)
+      .where(eq(transportRequests.id, row.id));
+  }
+
+  console.log(`Backfilled ${rows.length - unparsed.length} of ${rows.length} transport requests`);
+  if (unparsed.length > 0) {
+    console.log(`Could not parse dimensions for requests: ${unparsed.join(", ")}`);
+  }
+}
+
+backfill()
+  .catch((error) => {
+    console.error("Dimension backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
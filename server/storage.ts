@@ -1,25 +1,144 @@
 import {
+  sessions,
   users,
+  authTokens,
+  loginThrottles,
   transportRequests,
+  requestStatusHistory,
   bids,
+  bidRevisions,
+  ACTIVE_BID_STATUSES,
+  vehicles,
   gpsTracking,
+  platformSettings,
+  reviews,
   type User,
   type InsertUser,
+  type AuthToken,
+  type AuthTokenType,
+  type LoginThrottle,
   type InsertTransportRequest,
   type TransportRequest,
+  type RequestStatusHistoryEntry,
   type InsertBid,
   type Bid,
+  type BidRevision,
+  type Vehicle,
+  type InsertVehicle,
   type GpsTracking,
   type InsertGpsTracking,
+  type PlatformSetting,
+  type Review,
+  type ReviewEntry,
+  type InsertReview,
+  type ReviewCategory,
 } from "@shared/schema";
+import { isBiddingOpen } from "@shared/bidding";
+import { DEFAULT_MIN_BID_DECREMENT, getAntiSnipingDeadline, getMaximumAllowedBid } from "@shared/auction";
+import {
+  ANALYTICS_TIME_ZONE,
+  type AnalyticsGranularity,
+  type AnalyticsRange,
+  type AnalyticsTimePoint,
+  type BidResponseTimes,
+  type PopularRoute,
+  type TopDriver,
+} from "@shared/analytics";
 import { db } from "./db";
-import { eq, and, desc, count } from "drizzle-orm";
+import { eq, ne, and, or, asc, desc, count, gt, gte, lt, lte, ilike, isNull, inArray, sql, type SQL, type AnyColumn } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Timestamps are stored in UTC; analytics group by the platform's local hours and days.
+// The zone is a constant, so it is inlined to keep grouped and selected expressions identical.
+function localTime(column: AnyColumn): SQL {
+  return sql`(${column} at time zone 'UTC' at time zone ${sql.raw(`'${ANALYTICS_TIME_ZONE}'`)})`;
+}
+
+function createdWithin(range: AnalyticsRange): SQL | undefined {
+  return and(gte(transportRequests.createdAt, range.from), lt(transportRequests.createdAt, range.to));
+}
+
+// A status change already validated against the shared state machine (@shared/requestStatus)
+export interface StatusChange {
+  from: string;
+  to: string;
+  actorId: number | null;
+  reason?: string | null;
+  assignedDriverId?: number | null; // undefined leaves the assignment untouched, null clears it
+  cancellationFee?: string | null;
+  expectedVersion?: number; // optimistic check against transportRequests.version; omitted skips it
+}
+
+export interface AcceptBidChange {
+  actorId: number | null; // null when the bidding scheduler auto-awards
+  expectedVersion?: number;
+}
+
+export interface OpenAuctionBid {
+  requestId: number;
+  driverId: number;
+  amount: string;
+  message: string | null;
+  revisingBidId?: number; // revise this pending bid instead of placing a new one
+}
+
+export type OpenAuctionBidResult =
+  | { ok: true; bid: Bid; request: TransportRequest }
+  | { ok: false; code: "closed" | "not_low_enough" | "conflict"; maximumAllowedBid?: number | null };
+
+// Fields a client may change while their request is still pending
+export type TransportRequestChanges = Partial<InsertTransportRequest & {
+  isMultipleStops: boolean;
+  stopLocations: string[];
+  biddingClosedAt: Date | null;
+}>;
+
+// Jobs a driver has been assigned, by outcome
+export interface DriverJobStats {
+  assigned: number; // every time a request was assigned to the driver, including ones later taken off them
+  completed: number;
+  onTime: number; // completed by the request's delivery date
+  cancelled: number; // assignments that ended with the request cancelled or reassigned
+}
+
+export interface DriverBidStats {
+  placed: number;
+  accepted: number;
+  decided: number; // accepted or rejected
+  averageBudgetRatio: number | null; // mean bid amount ÷ request budget
+}
+
+// Revenue and deals (requests with an accepted bid) per request status
+export interface StatusRevenue {
+  status: string;
+  revenue: number;
+  deals: number;
+}
 
 export interface IStorage {
   // User operations
   getUserById(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: number, password: string): Promise<User>;
+  markEmailVerified(id: number): Promise<User>;
+  listUsers(options: { search?: string; role?: string; limit: number; offset: number }): Promise<{ users: User[]; total: number }>;
+  updateUserRole(id: number, role: string): Promise<User>;
+  setUserActive(id: number, isActive: boolean): Promise<User>;
+  setBidApprovalRequired(id: number, required: boolean): Promise<User>;
+  deleteSessionsForUser(id: number): Promise<void>;
+
+  // Auth token operations
+  createAuthToken(token: { userId: number; type: AuthTokenType; tokenHash: string; expiresAt: Date }): Promise<AuthToken>;
+  consumeAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined>;
+  invalidateAuthTokens(userId: number, type: AuthTokenType): Promise<void>;
+
+  // Login throttling operations
+  getLoginThrottles(keys: string[]): Promise<LoginThrottle[]>;
+  incrementLoginFailures(key: string, windowStart: Date): Promise<LoginThrottle>;
+  setLoginLockout(key: string, lockedUntil: Date): Promise<void>;
+  clearLoginThrottle(key: string): Promise<void>;
   
   // Transport request operations
   createTransportRequest(request: InsertTransportRequest & { 
@@ -30,13 +149,75 @@ export interface IStorage {
   getTransportRequests(): Promise<TransportRequest[]>;
   getTransportRequestsForClient(clientId: number): Promise<TransportRequest[]>;
   getTransportRequestById(id: number): Promise<TransportRequest | undefined>;
-  updateTransportRequestStatus(id: number, status: string, assignedDriverId?: number): Promise<TransportRequest>;
+  // Both return undefined when the request is no longer in `change.from` (changed concurrently)
+  transitionTransportRequestStatus(id: number, change: StatusChange): Promise<TransportRequest | undefined>;
+  reassignTransportRequest(id: number, change: StatusChange): Promise<TransportRequest | undefined>;
+  getStatusHistoryForRequest(requestId: number): Promise<RequestStatusHistoryEntry[]>;
+  // Pending requests whose bidding deadline has passed but haven't been closed yet
+  getTransportRequestsWithBiddingDue(now: Date): Promise<TransportRequest[]>;
+  // Returns undefined when bidding was already closed (or the request left pending) concurrently
+  closeBidding(id: number, closedAt: Date): Promise<TransportRequest | undefined>;
+  // Assigns the bid's driver, accepting the bid and rejecting the other open bids in one transaction.
+  // Returns undefined when the request, the bid or the expected version changed concurrently.
+  acceptBid(bidId: number, change: AcceptBidChange): Promise<{ request: TransportRequest; bid: Bid } | undefined>;
+  // Assigns a fixed-price request to the claiming driver at the published budget, recorded as an accepted bid.
+  // Returns undefined when another driver claimed it first (or bidding closed).
+  claimFixedPriceRequest(id: number, driverId: number, now: Date): Promise<{ request: TransportRequest; bid: Bid } | undefined>;
+  // Returns undefined when the request is no longer pending
+  updatePendingTransportRequest(id: number, changes: TransportRequestChanges, invalidateBids: boolean): Promise<{
+    request: TransportRequest;
+    invalidatedBids: Bid[];
+  } | undefined>;
   
   // Bid operations
   createBid(bid: InsertBid & { driverId: number }): Promise<Bid>;
+  getBidById(id: number): Promise<Bid | undefined>;
   getBidsForRequest(requestId: number): Promise<Bid[]>;
   getBidsForDriver(driverId: number): Promise<Bid[]>;
+  getActiveBidForDriver(requestId: number, driverId: number): Promise<Bid | undefined>;
   updateBidStatus(id: number, status: string): Promise<Bid>;
+  // Both return undefined when the bid is no longer open (accepted, rejected or withdrawn concurrently)
+  reviseBid(id: number, changes: { amount: string; message: string | null }): Promise<Bid | undefined>;
+  withdrawBid(id: number): Promise<Bid | undefined>;
+  // Places or revises a bid on an open auction, enforcing the minimum decrement and extending the deadline
+  // for bids in the final minutes
+  submitOpenAuctionBid(input: OpenAuctionBid, now: Date): Promise<OpenAuctionBidResult>;
+  getBidRevisions(bidId: number): Promise<BidRevision[]>;
+  // Marks the client's chosen bid for admin approval; only one bid per request can be selected
+  selectBidForApproval(bid: Bid): Promise<Bid>;
+  
+  // Vehicle operations
+  getVehiclesForDriver(driverId: number): Promise<Vehicle[]>;
+  getVehicleById(id: number): Promise<Vehicle | undefined>;
+  createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(id: number, vehicle: Partial<InsertVehicle>): Promise<Vehicle>;
+  deleteVehicle(id: number): Promise<void>;
+  
+  // Driver history behind the performance metrics (server/driverMetrics.ts)
+  getDriverJobStats(driverId: number): Promise<DriverJobStats>;
+  getDriverBidStats(driverId: number): Promise<DriverBidStats>;
+  
+  // Review operations. Creating a review also refreshes the reviewee's cached rating;
+  // a second review of the same request by the same user fails on the unique index.
+  createReview(review: InsertReview): Promise<Review>;
+  getReviewsForRequest(requestId: number): Promise<Review[]>;
+  getRecentReviewsForUser(userId: number, limit: number): Promise<ReviewEntry[]>;
+  getReviewCategoryAverages(userId: number): Promise<Record<ReviewCategory, number | null>>;
+  
+  // Platform settings; values are validated by whoever reads them
+  getSetting(key: string): Promise<PlatformSetting | undefined>;
+  upsertSetting(key: string, value: unknown, updatedBy: number): Promise<PlatformSetting>;
+  
+  // Analytics over requests created within a range (composed by server/analytics.ts)
+  getRequestStatusCounts(range: AnalyticsRange): Promise<{ status: string; count: number }[]>;
+  getRevenueByStatus(range: AnalyticsRange): Promise<StatusRevenue[]>;
+  getAverageReviewRating(range: AnalyticsRange): Promise<number | null>;
+  getAnalyticsTimeSeries(range: AnalyticsRange, granularity: AnalyticsGranularity): Promise<AnalyticsTimePoint[]>;
+  getTopDrivers(range: AnalyticsRange, limit: number): Promise<TopDriver[]>;
+  getPopularRoutes(range: AnalyticsRange, limit: number): Promise<PopularRoute[]>;
+  getRequestCountsByHour(range: AnalyticsRange): Promise<{ hour: number; requests: number }[]>;
+  getRequestCountsByWeekday(range: AnalyticsRange): Promise<{ weekday: number; requests: number }[]>;
+  getBidResponseTimes(range: AnalyticsRange): Promise<BidResponseTimes>;
   
   // Dashboard stats
   getAdminStats(): Promise<{
@@ -48,9 +229,12 @@ export interface IStorage {
   
   // GPS Tracking operations
   createGpsTracking(tracking: InsertGpsTracking): Promise<GpsTracking>;
+  createGpsTrackingBatch(points: InsertGpsTracking[]): Promise<GpsTracking[]>;
+  getStoredGpsPointIds(driverId: number, clientPointIds: string[]): Promise<string[]>;
   getGpsTrackingForRequest(requestId: number): Promise<GpsTracking[]>;
   getGpsTrackingForDriver(driverId: number): Promise<GpsTracking[]>;
   getLatestGpsTrackingForRequest(requestId: number): Promise<GpsTracking | undefined>;
+  getLatestGpsTrackingForDriver(driverId: number): Promise<GpsTracking | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -73,21 +257,187 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ password, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async markEmailVerified(id: number): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerified: true, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async listUsers(options: { search?: string; role?: string; limit: number; offset: number }): Promise<{ users: User[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (options.search) {
+      const pattern = `%${options.search}%`;
+      conditions.push(or(
+        ilike(users.email, pattern),
+        ilike(users.firstName, pattern),
+        ilike(users.lastName, pattern)
+      )!);
+    }
+    if (options.role) {
+      conditions.push(eq(users.role, options.role));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const userList = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    const [total] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(where);
+
+    return { users: userList, total: total.count };
+  }
+
+  async updateUserRole(id: number, role: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async setUserActive(id: number, isActive: boolean): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ isActive, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async setBidApprovalRequired(id: number, required: boolean): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ bidApprovalRequired: required, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteSessionsForUser(id: number): Promise<void> {
+    // Session payloads are stored by connect-pg-simple as JSON, with our userId at the top level
+    await db
+      .delete(sessions)
+      .where(sql`${sessions.sess}->>'userId' = ${String(id)}`);
+  }
+
+  // Auth token operations
+  async createAuthToken(token: { userId: number; type: AuthTokenType; tokenHash: string; expiresAt: Date }): Promise<AuthToken> {
+    const [authToken] = await db
+      .insert(authTokens)
+      .values(token)
+      .returning();
+    return authToken;
+  }
+
+  async consumeAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    // Single statement so a token can only ever be redeemed once
+    const [authToken] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.type, type),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return authToken;
+  }
+
+  async invalidateAuthTokens(userId: number, type: AuthTokenType): Promise<void> {
+    await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.type, type),
+        isNull(authTokens.usedAt)
+      ));
+  }
+
+  // Login throttling operations
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return await db
+      .select()
+      .from(loginThrottles)
+      .where(inArray(loginThrottles.key, keys));
+  }
+
+  async incrementLoginFailures(key: string, windowStart: Date): Promise<LoginThrottle> {
+    const now = new Date();
+    // Failures older than the window start a fresh count
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ key, failedCount: 1, lastFailedAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failedCount: sql`CASE WHEN ${loginThrottles.lastFailedAt} < ${windowStart} THEN 1 ELSE ${loginThrottles.failedCount} + 1 END`,
+          lastFailedAt: now,
+        },
+      })
+      .returning();
+    return throttle;
+  }
+
+  async setLoginLockout(key: string, lockedUntil: Date): Promise<void> {
+    await db
+      .update(loginThrottles)
+      .set({ lockedUntil })
+      .where(eq(loginThrottles.key, key));
+  }
+
+  async clearLoginThrottle(key: string): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.key, key));
+  }
+
   // Transport request operations
   async createTransportRequest(request: InsertTransportRequest & { 
     clientId: number; 
     isMultipleStops?: boolean; 
     stopLocations?: string[]; 
   }): Promise<TransportRequest> {
-    const [transportRequest] = await db
-      .insert(transportRequests)
-      .values({
-        ...request,
-        isMultipleStops: request.isMultipleStops || false,
-        stopLocations: request.stopLocations || [],
-      })
-      .returning();
-    return transportRequest;
+    return await db.transaction(async (tx) => {
+      const [transportRequest] = await tx
+        .insert(transportRequests)
+        .values({
+          ...request,
+          isMultipleStops: request.isMultipleStops || false,
+          stopLocations: request.stopLocations || [],
+        })
+        .returning();
+
+      await tx.insert(requestStatusHistory).values({
+        requestId: transportRequest.id,
+        fromStatus: null,
+        toStatus: transportRequest.status,
+        actorId: request.clientId,
+      });
+      return transportRequest;
+    });
   }
 
   async getTransportRequests(): Promise<TransportRequest[]> {
@@ -113,20 +463,198 @@ export class DatabaseStorage implements IStorage {
     return request;
   }
 
-  async updateTransportRequestStatus(id: number, status: string, assignedDriverId?: number): Promise<TransportRequest> {
-    const updateData: any = { status, updatedAt: new Date() };
-    if (assignedDriverId) {
-      updateData.assignedDriverId = assignedDriverId;
+  // The status (and optional version) guard in the WHERE clause makes a concurrent change lose instead of overwriting
+  private async applyStatusChange(tx: Transaction, id: number, change: StatusChange): Promise<TransportRequest | undefined> {
+    const updateData: Partial<typeof transportRequests.$inferInsert> = { status: change.to, updatedAt: new Date() };
+    if (change.assignedDriverId !== undefined) {
+      updateData.assignedDriverId = change.assignedDriverId;
     }
-    
+    if (change.cancellationFee !== undefined) {
+      updateData.cancellationFee = change.cancellationFee;
+    }
+
+    const [request] = await tx
+      .update(transportRequests)
+      .set({ ...updateData, version: sql`${transportRequests.version} + 1` })
+      .where(and(
+        eq(transportRequests.id, id),
+        eq(transportRequests.status, change.from),
+        change.expectedVersion !== undefined ? eq(transportRequests.version, change.expectedVersion) : undefined,
+      ))
+      .returning();
+    if (!request) return undefined;
+
+    await tx.insert(requestStatusHistory).values({
+      requestId: id,
+      fromStatus: change.from,
+      toStatus: change.to,
+      actorId: change.actorId,
+      driverId: request.assignedDriverId,
+      reason: change.reason || null,
+    });
+    return request;
+  }
+
+  async transitionTransportRequestStatus(id: number, change: StatusChange): Promise<TransportRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const request = await this.applyStatusChange(tx, id, change);
+
+      // Open bids on a cancelled request can never be accepted
+      if (request && change.to === "cancelled") {
+        await tx
+          .update(bids)
+          .set({ status: "rejected", updatedAt: new Date() })
+          .where(and(eq(bids.requestId, id), eq(bids.status, "pending")));
+      }
+      return request;
+    });
+  }
+
+  async acceptBid(bidId: number, change: AcceptBidChange): Promise<{ request: TransportRequest; bid: Bid } | undefined> {
+    const bid = await this.getBidById(bidId);
+    if (!bid) return undefined;
+
+    return await db.transaction(async (tx) => {
+      // Lock the request before its bids (the same order as every other request write) so concurrent
+      // accepts queue here and the loser sees the request already assigned
+      const [request] = await tx
+        .select()
+        .from(transportRequests)
+        .where(eq(transportRequests.id, bid.requestId))
+        .for("update");
+      if (!request || request.status !== "pending") return undefined;
+      if (change.expectedVersion !== undefined && request.version !== change.expectedVersion) return undefined;
+
+      const openBids = await tx
+        .select()
+        .from(bids)
+        .where(and(eq(bids.requestId, request.id), inArray(bids.status, ["pending", "client_selected"])))
+        .for("update");
+      if (!openBids.some((openBid) => openBid.id === bidId)) return undefined;
+
+      const assignedRequest = await this.applyStatusChange(tx, request.id, {
+        from: "pending",
+        to: "assigned",
+        actorId: change.actorId,
+        assignedDriverId: bid.driverId,
+        expectedVersion: request.version,
+      });
+      if (!assignedRequest) return undefined;
+
+      const updatedBids = await tx
+        .update(bids)
+        .set({
+          status: sql`CASE WHEN ${bids.id} = ${bidId} THEN 'accepted' ELSE 'rejected' END`,
+          updatedAt: new Date(),
+        })
+        .where(inArray(bids.id, openBids.map((openBid) => openBid.id)))
+        .returning();
+
+      return { request: assignedRequest, bid: updatedBids.find((updatedBid) => updatedBid.id === bidId)! };
+    });
+  }
+
+  async claimFixedPriceRequest(id: number, driverId: number, now: Date): Promise<{ request: TransportRequest; bid: Bid } | undefined> {
+    return await db.transaction(async (tx) => {
+      // The row lock makes simultaneous claims queue; the first one assigns and the rest see it taken
+      const [request] = await tx
+        .select()
+        .from(transportRequests)
+        .where(eq(transportRequests.id, id))
+        .for("update");
+      if (!request || request.biddingMode !== "fixed_price" || !isBiddingOpen(request, now)) return undefined;
+
+      const claimedRequest = await this.applyStatusChange(tx, id, {
+        from: "pending",
+        to: "assigned",
+        actorId: driverId,
+        reason: "Claimed at the fixed price",
+        assignedDriverId: driverId,
+        expectedVersion: request.version,
+      });
+      if (!claimedRequest) return undefined;
+
+      const [bid] = await tx
+        .insert(bids)
+        .values({ requestId: id, driverId, amount: request.budget, status: "accepted" })
+        .returning();
+
+      return { request: claimedRequest, bid };
+    });
+  }
+
+  async updatePendingTransportRequest(id: number, changes: TransportRequestChanges, invalidateBids: boolean): Promise<{
+    request: TransportRequest;
+    invalidatedBids: Bid[];
+  } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .update(transportRequests)
+        .set({ ...changes, version: sql`${transportRequests.version} + 1`, updatedAt: new Date() })
+        .where(and(eq(transportRequests.id, id), eq(transportRequests.status, "pending")))
+        .returning();
+      if (!request) return undefined;
+
+      const invalidatedBids = invalidateBids
+        ? await tx
+            .update(bids)
+            .set({ status: "invalidated", updatedAt: new Date() })
+            .where(and(eq(bids.requestId, id), eq(bids.status, "pending")))
+            .returning()
+        : [];
+
+      return { request, invalidatedBids };
+    });
+  }
+
+  async getTransportRequestsWithBiddingDue(now: Date): Promise<TransportRequest[]> {
+    return await db
+      .select()
+      .from(transportRequests)
+      .where(and(
+        eq(transportRequests.status, "pending"),
+        isNull(transportRequests.biddingClosedAt),
+        lte(transportRequests.biddingClosesAt, now),
+      ))
+      .orderBy(asc(transportRequests.biddingClosesAt));
+  }
+
+  async closeBidding(id: number, closedAt: Date): Promise<TransportRequest | undefined> {
     const [request] = await db
       .update(transportRequests)
-      .set(updateData)
-      .where(eq(transportRequests.id, id))
+      .set({ biddingClosedAt: closedAt, version: sql`${transportRequests.version} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(transportRequests.id, id),
+        eq(transportRequests.status, "pending"),
+        isNull(transportRequests.biddingClosedAt),
+        // An anti-sniping extension may have moved the deadline since the request was picked up
+        lte(transportRequests.biddingClosesAt, closedAt),
+      ))
       .returning();
     return request;
   }
 
+  async getStatusHistoryForRequest(requestId: number): Promise<RequestStatusHistoryEntry[]> {
+    return await db
+      .select({
+        id: requestStatusHistory.id,
+        requestId: requestStatusHistory.requestId,
+        fromStatus: requestStatusHistory.fromStatus,
+        toStatus: requestStatusHistory.toStatus,
+        actorId: requestStatusHistory.actorId,
+        driverId: requestStatusHistory.driverId,
+        reason: requestStatusHistory.reason,
+        createdAt: requestStatusHistory.createdAt,
+        actorFirstName: users.firstName,
+        actorLastName: users.lastName,
+        actorRole: users.role,
+      })
+      .from(requestStatusHistory)
+      .leftJoin(users, eq(requestStatusHistory.actorId, users.id))
+      .where(eq(requestStatusHistory.requestId, requestId))
+      .orderBy(asc(requestStatusHistory.createdAt), asc(requestStatusHistory.id));
+  }
+
   // Bid operations
   async createBid(bid: InsertBid & { driverId: number }): Promise<Bid> {
     const [newBid] = await db
@@ -136,6 +664,11 @@ export class DatabaseStorage implements IStorage {
     return newBid;
   }
 
+  async getBidById(id: number): Promise<Bid | undefined> {
+    const [bid] = await db.select().from(bids).where(eq(bids.id, id));
+    return bid;
+  }
+
   async getBidsForRequest(requestId: number): Promise<Bid[]> {
     return await db
       .select()
@@ -152,6 +685,18 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(bids.createdAt));
   }
 
+  async getActiveBidForDriver(requestId: number, driverId: number): Promise<Bid | undefined> {
+    const [bid] = await db
+      .select()
+      .from(bids)
+      .where(and(
+        eq(bids.requestId, requestId),
+        eq(bids.driverId, driverId),
+        inArray(bids.status, [...ACTIVE_BID_STATUSES]),
+      ));
+    return bid;
+  }
+
   async updateBidStatus(id: number, status: string): Promise<Bid> {
     const [bid] = await db
       .update(bids)
@@ -161,6 +706,468 @@ export class DatabaseStorage implements IStorage {
     return bid;
   }
 
+  async reviseBid(id: number, changes: { amount: string; message: string | null }): Promise<Bid | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so the revision row records the amount actually replaced
+      const [bid] = await tx
+        .select()
+        .from(bids)
+        .where(and(eq(bids.id, id), eq(bids.status, "pending")))
+        .for("update");
+      if (!bid) return undefined;
+
+      return await this.applyBidRevision(tx, bid, changes);
+    });
+  }
+
+  private async applyBidRevision(tx: Transaction, bid: Bid, changes: { amount: string; message: string | null }): Promise<Bid> {
+    await tx.insert(bidRevisions).values({
+      bidId: bid.id,
+      previousAmount: bid.amount,
+      amount: changes.amount,
+      previousMessage: bid.message,
+      message: changes.message,
+    });
+
+    const [revisedBid] = await tx
+      .update(bids)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(bids.id, bid.id))
+      .returning();
+    return revisedBid;
+  }
+
+  async submitOpenAuctionBid(input: OpenAuctionBid, now: Date): Promise<OpenAuctionBidResult> {
+    return await db.transaction(async (tx): Promise<OpenAuctionBidResult> => {
+      // Locking the request orders concurrent bids, so each is checked against the lowest bid at that moment
+      const [request] = await tx
+        .select()
+        .from(transportRequests)
+        .where(eq(transportRequests.id, input.requestId))
+        .for("update");
+      if (!request || !isBiddingOpen(request, now)) return { ok: false, code: "closed" };
+
+      const [lowest] = await tx
+        .select({ amount: sql<string | null>`min(${bids.amount})` })
+        .from(bids)
+        .where(and(
+          eq(bids.requestId, request.id),
+          ne(bids.driverId, input.driverId),
+          inArray(bids.status, ["pending", "client_selected"]),
+        ));
+      const maximumAllowedBid = getMaximumAllowedBid(
+        lowest.amount === null ? null : Number(lowest.amount),
+        Number(request.minBidDecrement ?? DEFAULT_MIN_BID_DECREMENT),
+      );
+      if (maximumAllowedBid !== null && Number(input.amount) > maximumAllowedBid) {
+        return { ok: false, code: "not_low_enough", maximumAllowedBid };
+      }
+
+      let bid: Bid;
+      if (input.revisingBidId !== undefined) {
+        const [existingBid] = await tx
+          .select()
+          .from(bids)
+          .where(and(eq(bids.id, input.revisingBidId), eq(bids.status, "pending")))
+          .for("update");
+        if (!existingBid) return { ok: false, code: "conflict" };
+        bid = await this.applyBidRevision(tx, existingBid, { amount: input.amount, message: input.message });
+      } else {
+        [bid] = await tx
+          .insert(bids)
+          .values({ requestId: input.requestId, driverId: input.driverId, amount: input.amount, message: input.message })
+          .returning();
+      }
+
+      const extendedDeadline = getAntiSnipingDeadline(request.biddingClosesAt, now);
+      if (!extendedDeadline) return { ok: true, bid, request };
+
+      const [extendedRequest] = await tx
+        .update(transportRequests)
+        .set({ biddingClosesAt: extendedDeadline, version: sql`${transportRequests.version} + 1`, updatedAt: new Date() })
+        .where(eq(transportRequests.id, request.id))
+        .returning();
+      return { ok: true, bid, request: extendedRequest };
+    });
+  }
+
+  async withdrawBid(id: number): Promise<Bid | undefined> {
+    const [bid] = await db
+      .update(bids)
+      .set({ status: "withdrawn", updatedAt: new Date() })
+      .where(and(eq(bids.id, id), inArray(bids.status, ["pending", "client_selected"])))
+      .returning();
+    return bid;
+  }
+
+  async getBidRevisions(bidId: number): Promise<BidRevision[]> {
+    return await db
+      .select()
+      .from(bidRevisions)
+      .where(eq(bidRevisions.bidId, bidId))
+      .orderBy(asc(bidRevisions.createdAt), asc(bidRevisions.id));
+  }
+
+  async selectBidForApproval(bid: Bid): Promise<Bid> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(bids)
+        .set({ status: "pending", updatedAt: new Date() })
+        .where(and(eq(bids.requestId, bid.requestId), eq(bids.status, "client_selected")));
+
+      const [selectedBid] = await tx
+        .update(bids)
+        .set({ status: "client_selected", updatedAt: new Date() })
+        .where(eq(bids.id, bid.id))
+        .returning();
+      return selectedBid;
+    });
+  }
+
+  // Vehicle operations
+  async getVehiclesForDriver(driverId: number): Promise<Vehicle[]> {
+    return await db
+      .select()
+      .from(vehicles)
+      .where(eq(vehicles.driverId, driverId))
+      .orderBy(vehicles.createdAt);
+  }
+
+  async getVehicleById(id: number): Promise<Vehicle | undefined> {
+    const [vehicle] = await db
+      .select()
+      .from(vehicles)
+      .where(eq(vehicles.id, id));
+    return vehicle;
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    const [newVehicle] = await db
+      .insert(vehicles)
+      .values(vehicle)
+      .returning();
+    return newVehicle;
+  }
+
+  async updateVehicle(id: number, vehicle: Partial<InsertVehicle>): Promise<Vehicle> {
+    const [updatedVehicle] = await db
+      .update(vehicles)
+      .set({ ...vehicle, updatedAt: new Date() })
+      .where(eq(vehicles.id, id))
+      .returning();
+    return updatedVehicle;
+  }
+
+  async deleteVehicle(id: number): Promise<void> {
+    await db
+      .delete(vehicles)
+      .where(eq(vehicles.id, id));
+  }
+
+  async getDriverJobStats(driverId: number): Promise<DriverJobStats> {
+    // The delivery time is the driver's first GPS fix marked delivered; requests completed without one
+    // fall back to when they were marked completed
+    const delivered = db
+      .select({
+        requestId: gpsTracking.requestId,
+        deliveredAt: sql<Date>`min(${gpsTracking.timestamp})`.as("delivered_at"),
+      })
+      .from(gpsTracking)
+      .where(and(eq(gpsTracking.driverId, driverId), eq(gpsTracking.status, "delivered")))
+      .groupBy(gpsTracking.requestId)
+      .as("delivered");
+
+    const completions = db
+      .select({
+        requestId: requestStatusHistory.requestId,
+        completedAt: sql<Date>`min(${requestStatusHistory.createdAt})`.as("completed_at"),
+      })
+      .from(requestStatusHistory)
+      .where(eq(requestStatusHistory.toStatus, "completed"))
+      .groupBy(requestStatusHistory.requestId)
+      .as("completions");
+
+    const [deliveries] = await db
+      .select({
+        completed: sql<number>`count(*) filter (where ${transportRequests.status} = 'completed')`.mapWith(Number),
+        onTime: sql<number>`count(*) filter (where ${transportRequests.status} = 'completed' and coalesce(${delivered.deliveredAt}, ${completions.completedAt}) <= ${transportRequests.deliveryDate})`.mapWith(Number),
+      })
+      .from(transportRequests)
+      .leftJoin(delivered, eq(delivered.requestId, transportRequests.id))
+      .leftJoin(completions, eq(completions.requestId, transportRequests.id))
+      .where(eq(transportRequests.assignedDriverId, driverId));
+
+    // Assignments come from the history, since cancelling keeps the driver on the request but reassigning clears
+    // it. Each assignment ends with the request's next completion, cancellation or return to pending.
+    const driverRequests = db
+      .select({ requestId: requestStatusHistory.requestId })
+      .from(requestStatusHistory)
+      .where(and(eq(requestStatusHistory.toStatus, "assigned"), eq(requestStatusHistory.driverId, driverId)));
+    const stints = db
+      .select({
+        toStatus: requestStatusHistory.toStatus,
+        driverId: requestStatusHistory.driverId,
+        endStatus: sql<string | null>`lead(${requestStatusHistory.toStatus}) over (partition by ${requestStatusHistory.requestId} order by ${requestStatusHistory.id})`.as("end_status"),
+      })
+      .from(requestStatusHistory)
+      .where(and(
+        inArray(requestStatusHistory.requestId, driverRequests),
+        inArray(requestStatusHistory.toStatus, ["assigned", "completed", "cancelled", "pending"]),
+      ))
+      .as("stints");
+    const [assignments] = await db
+      .select({
+        assigned: count(),
+        cancelled: sql<number>`count(*) filter (where ${stints.endStatus} in ('cancelled', 'pending'))`.mapWith(Number),
+      })
+      .from(stints)
+      .where(and(eq(stints.toStatus, "assigned"), eq(stints.driverId, driverId)));
+
+    return { ...deliveries, ...assignments };
+  }
+
+  async getDriverBidStats(driverId: number): Promise<DriverBidStats> {
+    const [stats] = await db
+      .select({
+        placed: count(),
+        accepted: sql<number>`count(*) filter (where ${bids.status} = 'accepted')`.mapWith(Number),
+        decided: sql<number>`count(*) filter (where ${bids.status} in ('accepted', 'rejected'))`.mapWith(Number),
+        averageBudgetRatio: sql<number | null>`avg(${bids.amount} / nullif(${transportRequests.budget}, 0))`.mapWith(Number),
+      })
+      .from(bids)
+      .innerJoin(transportRequests, eq(bids.requestId, transportRequests.id))
+      .where(eq(bids.driverId, driverId));
+    return stats;
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    return await db.transaction(async (tx) => {
+      // Locking the reviewee serialises concurrent reviews so each recount sees the others
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, review.revieweeId)).for("update");
+
+      const [newReview] = await tx.insert(reviews).values(review).returning();
+
+      await tx
+        .update(users)
+        .set({
+          ratingAverage: sql`(select round(avg(${reviews.rating}), 2) from ${reviews} where ${reviews.revieweeId} = ${review.revieweeId})`,
+          ratingCount: sql`(select count(*) from ${reviews} where ${reviews.revieweeId} = ${review.revieweeId})`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, review.revieweeId));
+
+      return newReview;
+    });
+  }
+
+  async getReviewsForRequest(requestId: number): Promise<Review[]> {
+    return await db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.requestId, requestId))
+      .orderBy(asc(reviews.createdAt));
+  }
+
+  async getRecentReviewsForUser(userId: number, limit: number): Promise<ReviewEntry[]> {
+    return await db
+      .select({
+        id: reviews.id,
+        requestId: reviews.requestId,
+        reviewerId: reviews.reviewerId,
+        revieweeId: reviews.revieweeId,
+        rating: reviews.rating,
+        punctuality: reviews.punctuality,
+        care: reviews.care,
+        communication: reviews.communication,
+        comment: reviews.comment,
+        createdAt: reviews.createdAt,
+        reviewerFirstName: users.firstName,
+        reviewerRole: users.role,
+      })
+      .from(reviews)
+      .leftJoin(users, eq(reviews.reviewerId, users.id))
+      .where(eq(reviews.revieweeId, userId))
+      .orderBy(desc(reviews.createdAt))
+      .limit(limit);
+  }
+
+  async getReviewCategoryAverages(userId: number): Promise<Record<ReviewCategory, number | null>> {
+    // avg() skips the nulls left by reviews without category scores
+    const categoryAverage = (column: SQL | AnyColumn) =>
+      sql<number | null>`round(avg(${column}), 2)`.mapWith(Number);
+
+    const [averages] = await db
+      .select({
+        punctuality: categoryAverage(reviews.punctuality),
+        care: categoryAverage(reviews.care),
+        communication: categoryAverage(reviews.communication),
+      })
+      .from(reviews)
+      .where(eq(reviews.revieweeId, userId));
+    return averages;
+  }
+
+  async getSetting(key: string): Promise<PlatformSetting | undefined> {
+    const [setting] = await db.select().from(platformSettings).where(eq(platformSettings.key, key));
+    return setting;
+  }
+
+  async upsertSetting(key: string, value: unknown, updatedBy: number): Promise<PlatformSetting> {
+    const now = new Date();
+    const [setting] = await db
+      .insert(platformSettings)
+      .values({ key, value, updatedBy, updatedAt: now })
+      .onConflictDoUpdate({
+        target: platformSettings.key,
+        set: { value, updatedBy, updatedAt: now },
+      })
+      .returning();
+    return setting;
+  }
+
+  // Analytics
+  async getRequestStatusCounts(range: AnalyticsRange): Promise<{ status: string; count: number }[]> {
+    return await db
+      .select({ status: transportRequests.status, count: count() })
+      .from(transportRequests)
+      .where(createdWithin(range))
+      .groupBy(transportRequests.status);
+  }
+
+  async getRevenueByStatus(range: AnalyticsRange): Promise<StatusRevenue[]> {
+    return await db
+      .select({
+        status: transportRequests.status,
+        revenue: sql<number>`coalesce(sum(${bids.amount}), 0)`.mapWith(Number),
+        deals: count(),
+      })
+      .from(bids)
+      .innerJoin(transportRequests, eq(bids.requestId, transportRequests.id))
+      .where(and(
+        createdWithin(range),
+        eq(bids.status, "accepted"),
+        ne(transportRequests.status, "cancelled"),
+      ))
+      .groupBy(transportRequests.status);
+  }
+
+  async getAverageReviewRating(range: AnalyticsRange): Promise<number | null> {
+    const [result] = await db
+      .select({ average: sql<number | null>`round(avg(${reviews.rating}), 2)`.mapWith(Number) })
+      .from(reviews)
+      .where(and(gte(reviews.createdAt, range.from), lt(reviews.createdAt, range.to)));
+    return result.average;
+  }
+
+  async getAnalyticsTimeSeries(range: AnalyticsRange, granularity: AnalyticsGranularity): Promise<AnalyticsTimePoint[]> {
+    // The granularity is one of a fixed set, so it can be inlined; a bound parameter would make
+    // the grouped expression differ from the selected one
+    const period = sql`date_trunc(${sql.raw(`'${granularity}'`)}, ${localTime(transportRequests.createdAt)})`;
+
+    return await db
+      .select({
+        // Back from local wall-clock time to an instant, so the result doesn't depend on the server's time zone
+        period: sql<string>`(${period} at time zone ${sql.raw(`'${ANALYTICS_TIME_ZONE}'`)})`
+          .mapWith((value) => new Date(value).toISOString()),
+        requests: sql<number>`count(distinct ${transportRequests.id})`.mapWith(Number),
+        deals: sql<number>`count(${bids.id})`.mapWith(Number),
+        revenue: sql<number>`coalesce(sum(${bids.amount}), 0)`.mapWith(Number),
+      })
+      .from(transportRequests)
+      .leftJoin(bids, and(
+        eq(bids.requestId, transportRequests.id),
+        eq(bids.status, "accepted"),
+        ne(transportRequests.status, "cancelled"),
+      ))
+      .where(createdWithin(range))
+      .groupBy(period)
+      .orderBy(period);
+  }
+
+  async getTopDrivers(range: AnalyticsRange, limit: number): Promise<TopDriver[]> {
+    const completedJobs = sql<number>`count(*) filter (where ${transportRequests.status} = 'completed')`.mapWith(Number);
+    const revenue = sql<number>`coalesce(sum(${bids.amount}) filter (where ${transportRequests.status} <> 'cancelled'), 0)`.mapWith(Number);
+
+    return await db
+      .select({
+        driverId: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        completedJobs,
+        revenue,
+        ratingAverage: sql<number | null>`${users.ratingAverage}`.mapWith(Number),
+      })
+      .from(transportRequests)
+      .innerJoin(users, eq(transportRequests.assignedDriverId, users.id))
+      .leftJoin(bids, and(eq(bids.requestId, transportRequests.id), eq(bids.status, "accepted")))
+      .where(createdWithin(range))
+      .groupBy(users.id)
+      .orderBy(desc(completedJobs), desc(revenue))
+      .limit(limit);
+  }
+
+  async getPopularRoutes(range: AnalyticsRange, limit: number): Promise<PopularRoute[]> {
+    // Addresses are free text, so case and surrounding spaces are ignored when grouping
+    const pickupKey = sql`lower(trim(${transportRequests.pickupLocation}))`;
+    const deliveryKey = sql`lower(trim(${transportRequests.deliveryLocation}))`;
+    const requests = count();
+
+    return await db
+      .select({
+        pickupLocation: sql<string>`min(${transportRequests.pickupLocation})`,
+        deliveryLocation: sql<string>`min(${transportRequests.deliveryLocation})`,
+        requests,
+        averageBudget: sql<number>`round(avg(${transportRequests.budget}), 2)`.mapWith(Number),
+      })
+      .from(transportRequests)
+      .where(createdWithin(range))
+      .groupBy(pickupKey, deliveryKey)
+      .orderBy(desc(requests))
+      .limit(limit);
+  }
+
+  async getRequestCountsByHour(range: AnalyticsRange): Promise<{ hour: number; requests: number }[]> {
+    const hour = sql`extract(hour from ${localTime(transportRequests.createdAt)})`;
+    return await db
+      .select({ hour: sql<number>`${hour}`.mapWith(Number), requests: count() })
+      .from(transportRequests)
+      .where(createdWithin(range))
+      .groupBy(hour);
+  }
+
+  async getRequestCountsByWeekday(range: AnalyticsRange): Promise<{ weekday: number; requests: number }[]> {
+    const weekday = sql`extract(dow from ${localTime(transportRequests.createdAt)})`;
+    return await db
+      .select({ weekday: sql<number>`${weekday}`.mapWith(Number), requests: count() })
+      .from(transportRequests)
+      .where(createdWithin(range))
+      .groupBy(weekday);
+  }
+
+  async getBidResponseTimes(range: AnalyticsRange): Promise<BidResponseTimes> {
+    const firstBids = db
+      .select({
+        requestId: bids.requestId,
+        firstBidAt: sql<Date>`min(${bids.createdAt})`.as("first_bid_at"),
+      })
+      .from(bids)
+      .groupBy(bids.requestId)
+      .as("first_bids");
+    const minutes = sql`extract(epoch from (${firstBids.firstBidAt} - ${transportRequests.createdAt})) / 60`;
+
+    const [result] = await db
+      .select({
+        requestsWithBids: count(),
+        averageMinutes: sql<number | null>`round(avg(${minutes}))`.mapWith(Number),
+        medianMinutes: sql<number | null>`round(percentile_cont(0.5) within group (order by ${minutes}))`.mapWith(Number),
+        fastestMinutes: sql<number | null>`round(min(${minutes}))`.mapWith(Number),
+      })
+      .from(transportRequests)
+      .innerJoin(firstBids, eq(firstBids.requestId, transportRequests.id))
+      .where(createdWithin(range));
+    return result;
+  }
+
   // Dashboard stats
   async getAdminStats(): Promise<{
     totalRequests: number;
@@ -200,41 +1207,23 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async reassignTransportRequest(requestId: number): Promise<TransportRequest> {
-    // Reset the request to pending status and remove assigned driver
-    const [updatedRequest] = await db
-      .update(transportRequests)
-      .set({
-        status: "pending",
-        assignedDriverId: null,
-        updatedAt: new Date(),
-      })
-      .where(eq(transportRequests.id, requestId))
-      .returning();
-    
-    // Also reject all existing bids for this request to allow new bidding
-    await db
-      .update(bids)
-      .set({
-        status: "rejected",
-        updatedAt: new Date(),
-      })
-      .where(eq(bids.requestId, requestId));
+  async reassignTransportRequest(requestId: number, change: StatusChange): Promise<TransportRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      // Reset the request to pending status and remove assigned driver
+      const updatedRequest = await this.applyStatusChange(tx, requestId, { ...change, assignedDriverId: null });
+      if (!updatedRequest) return undefined;
 
-    return updatedRequest;
-  }
+      // Also reject all active bids for this request to allow new bidding
+      await tx
+        .update(bids)
+        .set({
+          status: "rejected",
+          updatedAt: new Date(),
+        })
+        .where(and(eq(bids.requestId, requestId), inArray(bids.status, [...ACTIVE_BID_STATUSES])));
 
-  async updateTransportRequestStatusOnly(requestId: number, status: string): Promise<TransportRequest> {
-    const [updatedRequest] = await db
-      .update(transportRequests)
-      .set({
-        status,
-        updatedAt: new Date(),
-      })
-      .where(eq(transportRequests.id, requestId))
-      .returning();
-
-    return updatedRequest;
+      return updatedRequest;
+    });
   }
 
   // GPS Tracking operations
@@ -246,6 +1235,26 @@ export class DatabaseStorage implements IStorage {
     return gpsTrack;
   }
 
+  // Returns only the points that were new; ones already stored for the driver under the same clientPointId are skipped
+  async createGpsTrackingBatch(points: InsertGpsTracking[]): Promise<GpsTracking[]> {
+    if (points.length === 0) return [];
+    return await db
+      .insert(gpsTracking)
+      .values(points)
+      .onConflictDoNothing({ target: [gpsTracking.driverId, gpsTracking.clientPointId] })
+      .returning();
+  }
+
+  // The clientPointIds among the given ones that the driver has already uploaded
+  async getStoredGpsPointIds(driverId: number, clientPointIds: string[]): Promise<string[]> {
+    if (clientPointIds.length === 0) return [];
+    const rows = await db
+      .select({ clientPointId: gpsTracking.clientPointId })
+      .from(gpsTracking)
+      .where(and(eq(gpsTracking.driverId, driverId), inArray(gpsTracking.clientPointId, clientPointIds)));
+    return rows.map((row) => row.clientPointId!);
+  }
+
   async getGpsTrackingForRequest(requestId: number): Promise<GpsTracking[]> {
     return await db
       .select()
@@ -271,6 +1280,16 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     return latest;
   }
+
+  async getLatestGpsTrackingForDriver(driverId: number): Promise<GpsTracking | undefined> {
+    const [latest] = await db
+      .select()
+      .from(gpsTracking)
+      .where(eq(gpsTracking.driverId, driverId))
+      .orderBy(desc(gpsTracking.timestamp))
+      .limit(1);
+    return latest;
+  }
 }
 
 export const storage = new DatabaseStorage();
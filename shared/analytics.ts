@@ -0,0 +1,79 @@
+// Admin analytics: query parameters and response shapes shared by /api/admin/analytics/* and the Analytics tab.
+// Every figure covers requests created within the range; revenue is the total of accepted bids on requests
+// that were not cancelled.
+
+import { z } from "zod";
+
+export const ANALYTICS_GRANULARITIES = ["day", "week", "month"] as const;
+
+export type AnalyticsGranularity = (typeof ANALYTICS_GRANULARITIES)[number];
+
+export const DEFAULT_ANALYTICS_RANGE_DAYS = 30;
+
+// Hours and weekdays are reported in the platform's local time
+export const ANALYTICS_TIME_ZONE = "Africa/Johannesburg";
+
+export const analyticsQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    granularity: z.enum(ANALYTICS_GRANULARITIES).default("day"),
+    limit: z.coerce.number().int().min(1).max(50).default(5),
+  })
+  .refine((query) => !query.from || !query.to || query.from < query.to, {
+    message: "The start of the range must be before the end",
+    path: ["from"],
+  });
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface AnalyticsSummary {
+  revenue: number;
+  previousRevenue: number; // same-length period immediately before the range
+  deals: number; // requests with an accepted bid
+  averageDealValue: number | null;
+  revenueByStatus: { status: string; revenue: number }[];
+  statusBreakdown: { status: string; count: number }[];
+  completionRate: number | null; // completed ÷ requests that reached a final status, as a percentage
+  averageRating: number | null; // across reviews left in the range
+}
+
+export interface AnalyticsTimePoint {
+  period: string; // ISO instant at which the day, week or month starts in ANALYTICS_TIME_ZONE
+  requests: number;
+  deals: number;
+  revenue: number;
+}
+
+export interface TopDriver {
+  driverId: number;
+  firstName: string | null;
+  lastName: string | null;
+  completedJobs: number;
+  revenue: number;
+  ratingAverage: number | null;
+}
+
+export interface PopularRoute {
+  pickupLocation: string;
+  deliveryLocation: string;
+  requests: number;
+  averageBudget: number;
+}
+
+export interface ActivityBreakdown {
+  hours: { hour: number; requests: number }[]; // 0–23, every hour present
+  weekdays: { weekday: number; requests: number }[]; // 0 = Sunday, every day present
+}
+
+export interface BidResponseTimes {
+  requestsWithBids: number;
+  averageMinutes: number | null; // request creation to its first bid
+  medianMinutes: number | null;
+  fastestMinutes: number | null;
+}
@@ -0,0 +1,65 @@
+// Open (reverse) auction rules shared by the API (enforcement) and the driver dashboard (showing the
+// highest amount that would still be accepted).
+
+export const DEFAULT_MIN_BID_DECREMENT = 10;
+export const ANTI_SNIPING_WINDOW_MINUTES = 2;
+
+export interface AuctionState {
+  requestId: number;
+  bidCount: number;
+  lowestAmount: number | null;
+  minBidDecrement: number;
+  maximumAllowedBid: number | null; // null when there is no competing bid to undercut
+  biddingClosesAt: Date | string | null;
+  myBid: { id: number; amount: number; rank: number } | null; // rank 1 is the lowest bid
+}
+
+// A bid must undercut the lowest competing bid by at least the decrement
+export function getMaximumAllowedBid(lowestCompetingAmount: number | null, minBidDecrement: number): number | null {
+  if (lowestCompetingAmount === null) return null;
+  return Math.round((lowestCompetingAmount - minBidDecrement) * 100) / 100;
+}
+
+// A bid in the final minutes pushes the deadline out so others get a chance to respond; null when no extension is due
+export function getAntiSnipingDeadline(biddingClosesAt: Date | null, now: Date = new Date()): Date | null {
+  if (!biddingClosesAt) return null;
+
+  const windowMs = ANTI_SNIPING_WINDOW_MINUTES * 60 * 1000;
+  if (biddingClosesAt.getTime() - now.getTime() > windowMs) return null;
+  return new Date(now.getTime() + windowMs);
+}
+
+interface AuctionBid {
+  id: number;
+  driverId: number;
+  amount: string;
+  status: string;
+  createdAt: Date | null;
+}
+
+interface AuctionRequest {
+  id: number;
+  minBidDecrement: string | null;
+  biddingClosesAt: Date | null;
+}
+
+// What a driver may see of an open auction: competitors' amounts are reduced to the lowest one and a rank
+export function getAuctionState(request: AuctionRequest, bids: AuctionBid[], driverId: number | null): AuctionState {
+  const minBidDecrement = Number(request.minBidDecrement ?? DEFAULT_MIN_BID_DECREMENT);
+  const ranked = bids
+    .filter((bid) => bid.status === "pending" || bid.status === "client_selected")
+    .sort((a, b) => Number(a.amount) - Number(b.amount) || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+  const competing = ranked.filter((bid) => bid.driverId !== driverId);
+  const myIndex = ranked.findIndex((bid) => bid.driverId === driverId);
+
+  return {
+    requestId: request.id,
+    bidCount: ranked.length,
+    lowestAmount: ranked.length > 0 ? Number(ranked[0].amount) : null,
+    minBidDecrement,
+    maximumAllowedBid: getMaximumAllowedBid(competing.length > 0 ? Number(competing[0].amount) : null, minBidDecrement),
+    biddingClosesAt: request.biddingClosesAt,
+    myBid: myIndex === -1 ? null : { id: ranked[myIndex].id, amount: Number(ranked[myIndex].amount), rank: myIndex + 1 },
+  };
+}
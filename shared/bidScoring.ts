@@ -0,0 +1,55 @@
+// Bid ranking factors shared by the scoring service (server/bidScoring.ts) and the admin settings form.
+// Each factor scores a bid from 0 to 1; the weights decide how much each one counts towards the 0–100 total.
+
+import { z } from "zod";
+import type { Bid } from "./schema";
+
+export const BID_SCORE_FACTORS = ["price", "rating", "onTime", "vehicleFit", "distance"] as const;
+
+export type BidScoreFactor = (typeof BID_SCORE_FACTORS)[number];
+
+export const BID_SCORE_FACTOR_LABELS: Record<BidScoreFactor, string> = {
+  price: "Price vs budget",
+  rating: "Driver rating",
+  onTime: "On-time history",
+  vehicleFit: "Vehicle fit",
+  distance: "Distance from pickup",
+};
+
+const weight = z.coerce.number().min(0, "Weights can't be negative").max(100, "Weights can't exceed 100");
+
+export const bidScoringWeightsSchema = z
+  .object({
+    price: weight,
+    rating: weight,
+    onTime: weight,
+    vehicleFit: weight,
+    distance: weight,
+  })
+  .refine((weights) => BID_SCORE_FACTORS.some((factor) => weights[factor] > 0), {
+    message: "At least one weight must be above zero",
+  });
+
+export type BidScoringWeights = z.infer<typeof bidScoringWeightsSchema>;
+
+export const DEFAULT_BID_SCORING_WEIGHTS: BidScoringWeights = {
+  price: 40,
+  rating: 20,
+  onTime: 20,
+  vehicleFit: 10,
+  distance: 10,
+};
+
+export interface BidScoreComponent {
+  factor: BidScoreFactor;
+  value: number; // 0–1
+  weight: number;
+  points: number; // this factor's share of the total
+  detail: string; // what the value was based on, e.g. "85% of budget"
+}
+
+// The breakdown is only sent to users who may see why a bid ranked where it did
+export type ScoredBid = Bid & {
+  score: number; // 0–100
+  scoreBreakdown?: BidScoreComponent[];
+};
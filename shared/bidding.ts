@@ -0,0 +1,18 @@
+// Bidding window rules shared by the API (rejecting late bids) and the driver dashboard (countdown).
+
+export interface BiddingWindow {
+  status: string;
+  biddingClosesAt: Date | string | null;
+  biddingClosedAt: Date | string | null;
+}
+
+// Milliseconds until bidding closes, or null when the request has no deadline
+export function getBiddingTimeRemaining(request: BiddingWindow, now: Date = new Date()): number | null {
+  if (!request.biddingClosesAt) return null;
+  return Math.max(0, new Date(request.biddingClosesAt).getTime() - now.getTime());
+}
+
+export function isBiddingOpen(request: BiddingWindow, now: Date = new Date()): boolean {
+  if (request.status !== "pending" || request.biddingClosedAt) return false;
+  return getBiddingTimeRemaining(request, now) !== 0;
+}
@@ -0,0 +1,21 @@
+// Client cancellation fee rules. Cancelling before a driver is assigned is free; afterwards the driver
+// is compensated with a share of the agreed price, larger the closer the pickup is.
+
+export const LATE_CANCELLATION_WINDOW_HOURS = 24;
+export const CANCELLATION_FEE_RATE = 0.1;
+export const LATE_CANCELLATION_FEE_RATE = 0.25;
+
+export interface CancellationFeeInput {
+  status: string;
+  pickupDate: Date | string;
+  agreedAmount: number; // accepted bid amount, or the budget when no bid was accepted
+}
+
+export function calculateCancellationFee(input: CancellationFeeInput, now: Date = new Date()): number {
+  if (input.status !== "assigned") return 0;
+
+  const hoursUntilPickup = (new Date(input.pickupDate).getTime() - now.getTime()) / (60 * 60 * 1000);
+  const rate = hoursUntilPickup <= LATE_CANCELLATION_WINDOW_HOURS ? LATE_CANCELLATION_FEE_RATE : CANCELLATION_FEE_RATE;
+
+  return Math.round(input.agreedAmount * rate * 100) / 100;
+}
@@ -0,0 +1,92 @@
+// GPS submission rules shared by the API (rejecting points) and the driver's device (explaining rejections).
+// A point is only stored when the request is assigned to the submitting driver and still being delivered, and when
+// the fix is physically plausible.
+
+// Points may be recorded while the request is in one of these statuses
+export const TRACKABLE_REQUEST_STATUSES = ["assigned", "in_progress"] as const;
+
+export const MAX_PLAUSIBLE_SPEED_KMH = 200; // implied by two consecutive fixes
+export const MAX_POINT_AGE_MS = 24 * 60 * 60 * 1000; // offline queues are flushed well within a day
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // device clocks running ahead of the server
+export const MAX_GPS_ACCURACY_M = 10000; // larger radii are not fixes worth storing
+export const MAX_ACCURACY_TOLERANCE_KM = 1; // most a poor fix can excuse when judging speed
+
+export const GPS_REJECTION_REASONS = [
+  "request_not_found",
+  "not_assigned",
+  "request_not_active",
+  "invalid_coordinates",
+  "stale_timestamp",
+  "future_timestamp",
+  "before_assignment",
+  "out_of_order",
+  "impossible_speed",
+] as const;
+
+export type GpsRejectionReason = (typeof GPS_REJECTION_REASONS)[number];
+
+export const GPS_REJECTION_MESSAGES: Record<GpsRejectionReason, string> = {
+  request_not_found: "The request no longer exists",
+  not_assigned: "This request is not assigned to you",
+  request_not_active: "The request is not being delivered",
+  invalid_coordinates: "The location is not a valid position",
+  stale_timestamp: "The location was recorded too long ago",
+  future_timestamp: "The location's time is ahead of the server; check the device clock",
+  before_assignment: "The location was recorded before the request was assigned to you",
+  out_of_order: "The location was recorded before your last accepted location",
+  impossible_speed: "The location is too far from the previous one to be reached in time",
+};
+
+export interface GpsRejection {
+  reason: GpsRejectionReason;
+  message: string;
+}
+
+// Response to a batch upload. Rejected points will never be accepted, so the device can discard them too.
+export interface GpsBatchResult {
+  stored: number;
+  duplicates: number; // already stored by an earlier attempt
+  rejected: (GpsRejection & { clientPointId: string })[];
+}
+
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // meters
+  timestamp: Date;
+}
+
+export function gpsRejection(reason: GpsRejectionReason): GpsRejection {
+  return { reason, message: GPS_REJECTION_MESSAGES[reason] };
+}
+
+// Great-circle distance between two points
+export function distanceKm(fromLat: number, fromLng: number, toLat: number, toLng: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(toLat - fromLat);
+  const dLng = toRadians(toLng - fromLng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Checks a fix on its own and against the driver's previous one. 0,0 is what many devices report without a fix.
+// Both fixes' accuracy is allowed for before judging the speed between them, so GPS jitter isn't rejected; the
+// allowance is capped so a device can't claim a huge accuracy radius to excuse any jump.
+export function checkGpsPlausibility(fix: GpsFix, previous: GpsFix | undefined, now: Date = new Date()): GpsRejection | null {
+  const { latitude, longitude } = fix;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || (latitude === 0 && longitude === 0)) {
+    return gpsRejection("invalid_coordinates");
+  }
+
+  const age = now.getTime() - fix.timestamp.getTime();
+  if (age > MAX_POINT_AGE_MS) return gpsRejection("stale_timestamp");
+  if (age < -MAX_CLOCK_SKEW_MS) return gpsRejection("future_timestamp");
+
+  if (!previous) return null;
+  const hours = Math.abs(fix.timestamp.getTime() - previous.timestamp.getTime()) / (60 * 60 * 1000);
+
+  const tolerance = Math.min(MAX_ACCURACY_TOLERANCE_KM, ((fix.accuracy ?? 0) + (previous.accuracy ?? 0)) / 1000);
+  const km = Math.max(0, distanceKm(previous.latitude, previous.longitude, latitude, longitude) - tolerance);
+  if (km === 0) return null;
+  return hours === 0 || km / hours > MAX_PLAUSIBLE_SPEED_KMH ? gpsRejection("impossible_speed") : null;
+}
@@ -0,0 +1,87 @@
+// Role → permission map shared by the API (route guards) and the client (hiding actions).
+// New roles only need an entry here; routes check permissions, never role names.
+
+export const PERMISSIONS = [
+  "requests:create",
+  "requests:view_own",
+  "requests:edit_own",
+  "requests:cancel_own",
+  "requests:view_open",
+  "requests:view_all",
+  "requests:view_budget",
+  "requests:assign",
+  "requests:reassign",
+  "requests:update_status",
+  "requests:progress_assigned",
+  "requests:claim",
+  "bids:create",
+  "bids:edit_own",
+  "bids:view_own",
+  "bids:view_request",
+  "bids:accept_own",
+  "bids:view_scores",
+  "drivers:view_profile",
+  "reviews:create",
+  "tracking:submit",
+  "vehicles:manage",
+  "admin:stats",
+  "users:manage",
+  "settings:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ["client", "driver", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  client: [
+    "requests:create",
+    "requests:view_own",
+    "requests:edit_own",
+    "requests:cancel_own",
+    "requests:view_budget",
+    "bids:view_request",
+    "bids:accept_own",
+    "drivers:view_profile",
+    "reviews:create",
+  ],
+  driver: [
+    "requests:view_open",
+    "requests:progress_assigned",
+    "requests:claim",
+    "bids:create",
+    "bids:edit_own",
+    "bids:view_own",
+    "reviews:create",
+    "tracking:submit",
+    "vehicles:manage",
+  ],
+  admin: [
+    "requests:view_all",
+    "requests:view_budget",
+    "requests:assign",
+    "requests:reassign",
+    "requests:update_status",
+    "bids:view_request",
+    "bids:view_scores",
+    "drivers:view_profile",
+    "admin:stats",
+    "users:manage",
+    "settings:manage",
+  ],
+};
+
+export function isRole(role: string): role is Role {
+  return (ROLES as readonly string[]).includes(role);
+}
+
+export function getPermissions(role: string | null | undefined): readonly Permission[] {
+  if (!role || !isRole(role)) return [];
+  return ROLE_PERMISSIONS[role];
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
@@ -0,0 +1,111 @@
+// Protocol of the /ws socket. A connection only receives messages for topics it has subscribed to, and the
+// server checks each subscription against the session user before accepting it.
+//
+// Every server message is an envelope of { type, topic, seq, payload }. Each app instance numbers the events of
+// a topic as it delivers them, under an epoch that identifies the instance's run. A client that reconnects
+// subscribes with the epoch and last seq it processed and has the events it missed replayed. When that isn't
+// possible (another instance, a restart, or events no longer buffered) the subscription reports
+// `resumed: false` and the client reloads the topic's state over HTTP instead.
+//
+// There is no separate ack message: the last seq sent when resubscribing acknowledges every event up to it. The
+// server keeps its replay buffer by size and age rather than by acks, so a slow client can't hold events back.
+
+import { z } from "zod";
+
+// Live GPS fixes for one request: its client, its assigned driver and admins
+export const trackingTopic = (requestId: number) => `tracking:${requestId}`;
+
+// Status and bid changes of one request: its client, its assigned driver and admins
+export const requestTopic = (requestId: number) => `request:${requestId}`;
+
+// Open-auction bid changes, for drivers browsing open requests and admins
+export const AUCTIONS_TOPIC = "auctions";
+
+// Seconds between server pings; a socket that misses a pong by the next ping is closed
+export const REALTIME_HEARTBEAT_SECONDS = 30;
+
+export const locationUpdatePayloadSchema = z.object({
+  requestId: z.number(),
+  driverId: z.number(),
+  latitude: z.string(),
+  longitude: z.string(),
+  speed: z.string().nullable(),
+  status: z.string(),
+  timestamp: z.coerce.date(),
+});
+
+export const auctionUpdatePayloadSchema = z.object({
+  requestId: z.number(),
+  status: z.string(),
+  bidCount: z.number(),
+  lowestAmount: z.number().nullable(),
+  biddingClosesAt: z.coerce.date().nullable(),
+});
+
+export const statusUpdatePayloadSchema = z.object({
+  requestId: z.number(),
+  fromStatus: z.string(),
+  status: z.string(),
+  assignedDriverId: z.number().nullable(),
+  version: z.number(),
+});
+
+// Amounts are left out: followers reload the bids they may see over HTTP
+export const bidUpdatePayloadSchema = z.object({
+  requestId: z.number(),
+  bidId: z.number(),
+  driverId: z.number(),
+  status: z.string(),
+});
+
+// An event as published by any instance, before the delivering instance numbers it. access_revoked isn't a
+// topic event: it tells every instance to close the sockets of a user whose role or account status changed.
+export const publishedEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("location_update"), topic: z.string(), payload: locationUpdatePayloadSchema }),
+  z.object({ type: z.literal("auction_update"), topic: z.string(), payload: auctionUpdatePayloadSchema }),
+  z.object({ type: z.literal("status_update"), topic: z.string(), payload: statusUpdatePayloadSchema }),
+  z.object({ type: z.literal("bid_update"), topic: z.string(), payload: bidUpdatePayloadSchema }),
+  z.object({ type: z.literal("access_revoked"), payload: z.object({ userId: z.number() }) }),
+]);
+
+const envelope = <T extends string, P extends z.ZodTypeAny>(type: T, payload: P) =>
+  z.object({ type: z.literal(type), topic: z.string(), seq: z.number().int().nonnegative(), payload });
+
+export const realtimeServerMessageSchema = z.discriminatedUnion("type", [
+  envelope("location_update", locationUpdatePayloadSchema),
+  envelope("auction_update", auctionUpdatePayloadSchema),
+  envelope("status_update", statusUpdatePayloadSchema),
+  envelope("bid_update", bidUpdatePayloadSchema),
+  // seq is the topic's latest event, so a client resuming from it misses nothing
+  envelope("subscribed", z.object({ epoch: z.string(), resumed: z.boolean(), replayed: z.number().int() })),
+  envelope("subscription_error", z.object({ message: z.string() })),
+]);
+
+export const realtimeClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    payload: z.object({
+      topic: z.string(),
+      // Both set when resuming after a reconnect
+      epoch: z.string().optional(),
+      lastSeq: z.number().int().nonnegative().optional(),
+    }),
+  }),
+  z.object({ type: z.literal("unsubscribe"), payload: z.object({ topic: z.string() }) }),
+]);
+
+export type LocationUpdate = z.infer<typeof locationUpdatePayloadSchema>;
+export type AuctionUpdate = z.infer<typeof auctionUpdatePayloadSchema>;
+export type StatusUpdate = z.infer<typeof statusUpdatePayloadSchema>;
+export type BidUpdate = z.infer<typeof bidUpdatePayloadSchema>;
+export type PublishedEvent = z.infer<typeof publishedEventSchema>;
+export type PublishedTopicEvent = Exclude<PublishedEvent, { type: "access_revoked" }>;
+export type RealtimeServerMessage = z.infer<typeof realtimeServerMessageSchema>;
+export type RealtimeClientMessage = z.infer<typeof realtimeClientMessageSchema>;
+
+// Events published to topics, as opposed to subscription acknowledgements
+export type RealtimeEvent = Extract<
+  RealtimeServerMessage,
+  { type: "location_update" | "auction_update" | "status_update" | "bid_update" }
+>;
+
@@ -0,0 +1,154 @@
+// Transport request lifecycle shared by the API (enforcement) and the client (offering only valid actions).
+// Every status change goes through this table; anything not listed is rejected. Changes that also settle bids,
+// fees or notifications are tied to their dedicated endpoint and refused by the generic status update.
+
+import { hasPermission, type Permission } from "./permissions";
+
+export const REQUEST_STATUSES = ["pending", "assigned", "in_progress", "completed", "cancelled", "expired"] as const;
+
+export type RequestStatus = (typeof REQUEST_STATUSES)[number];
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: "Pending",
+  assigned: "Assigned",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+// Endpoints that make a status change together with its side effects (see server/routes.ts)
+export type StatusChangeEndpoint = "assign" | "reassign" | "cancel" | "accept" | "claim";
+
+export interface StatusTransitionRule {
+  permission: Permission;
+  endpoint?: StatusChangeEndpoint; // only this endpoint may apply the rule, never PATCH /status
+  assignedDriverOnly?: boolean; // the actor must be the request's assigned driver
+  requestOwnerOnly?: boolean; // the actor must be the client who created the request
+  selfAssignOnly?: boolean; // the driver being assigned must be the actor (fixed-price claims)
+  requiresReason?: boolean;
+  requiresDriver?: boolean;
+}
+
+// from → to → who may perform it (any matching rule allows the change). An empty list marks a change only
+// the server makes itself, e.g. the bidding scheduler expiring requests that got no bids.
+export const STATUS_TRANSITIONS: Record<RequestStatus, Partial<Record<RequestStatus, StatusTransitionRule[]>>> = {
+  pending: {
+    assigned: [
+      { permission: "requests:assign", endpoint: "assign", requiresDriver: true },
+      { permission: "bids:accept_own", endpoint: "accept", requestOwnerOnly: true, requiresDriver: true },
+      { permission: "requests:claim", endpoint: "claim", selfAssignOnly: true, requiresDriver: true },
+    ],
+    cancelled: [
+      { permission: "requests:update_status", requiresReason: true },
+      { permission: "requests:cancel_own", endpoint: "cancel", requestOwnerOnly: true, requiresReason: true },
+    ],
+    expired: [],
+  },
+  assigned: {
+    in_progress: [
+      { permission: "requests:update_status" },
+      { permission: "requests:progress_assigned", assignedDriverOnly: true },
+    ],
+    pending: [{ permission: "requests:reassign", endpoint: "reassign" }],
+    cancelled: [
+      { permission: "requests:update_status", requiresReason: true },
+      { permission: "requests:cancel_own", endpoint: "cancel", requestOwnerOnly: true, requiresReason: true },
+    ],
+  },
+  in_progress: {
+    completed: [
+      { permission: "requests:update_status" },
+      { permission: "requests:progress_assigned", assignedDriverOnly: true },
+    ],
+    pending: [{ permission: "requests:reassign", endpoint: "reassign" }],
+    cancelled: [{ permission: "requests:update_status", requiresReason: true }],
+  },
+  completed: {},
+  cancelled: {},
+  expired: {},
+};
+
+export interface StatusTransitionRequest {
+  status: string;
+  clientId: number;
+  assignedDriverId: number | null;
+}
+
+export interface StatusTransitionActor {
+  id: number;
+  role: string;
+}
+
+export interface StatusTransitionInput {
+  reason?: string | null;
+  assignedDriverId?: number | null;
+}
+
+export type StatusTransitionCheck =
+  | { ok: true; rule: StatusTransitionRule }
+  | { ok: false; code: "invalid" | "forbidden"; message: string };
+
+export function isRequestStatus(status: string): status is RequestStatus {
+  return (REQUEST_STATUSES as readonly string[]).includes(status);
+}
+
+function getRules(from: string, to: string): StatusTransitionRule[] {
+  if (!isRequestStatus(from) || !isRequestStatus(to)) return [];
+  return STATUS_TRANSITIONS[from][to] ?? [];
+}
+
+function actorMatches(rule: StatusTransitionRule, request: StatusTransitionRequest, actor: StatusTransitionActor): boolean {
+  if (!hasPermission(actor.role, rule.permission)) return false;
+  if (rule.requestOwnerOnly && request.clientId !== actor.id) return false;
+  return !rule.assignedDriverOnly || request.assignedDriverId === actor.id;
+}
+
+// Statuses the actor could move the request to, for showing only valid actions
+export function getAvailableTransitions(request: StatusTransitionRequest, actor: StatusTransitionActor): RequestStatus[] {
+  if (!isRequestStatus(request.status)) return [];
+
+  return REQUEST_STATUSES.filter((to) =>
+    getRules(request.status, to).some((rule) => actorMatches(rule, request, actor)),
+  );
+}
+
+// Checks a change made through the given endpoint; without one, through the generic status update
+export function checkStatusTransition(
+  request: StatusTransitionRequest,
+  to: string,
+  actor: StatusTransitionActor,
+  input: StatusTransitionInput = {},
+  endpoint?: StatusChangeEndpoint,
+): StatusTransitionCheck {
+  if (!isRequestStatus(to)) {
+    return { ok: false, code: "invalid", message: "Invalid status" };
+  }
+
+  const rules = getRules(request.status, to);
+  if (rules.length === 0) {
+    return { ok: false, code: "invalid", message: `Cannot change status from ${request.status} to ${to}` };
+  }
+
+  const allowed = rules.filter((candidate) => actorMatches(candidate, request, actor));
+  if (allowed.length === 0) {
+    return { ok: false, code: "forbidden", message: "You do not have permission to perform this action" };
+  }
+
+  const rule = allowed.find((candidate) => candidate.endpoint === endpoint);
+  if (!rule) {
+    return { ok: false, code: "invalid", message: `This change to ${to} has its own action and cannot be made here` };
+  }
+
+  if (rule.requiresReason && !input.reason?.trim()) {
+    return { ok: false, code: "invalid", message: "A reason is required for this status change" };
+  }
+  if (rule.requiresDriver && !input.assignedDriverId) {
+    return { ok: false, code: "invalid", message: "A driver is required for this status change" };
+  }
+  if (rule.selfAssignOnly && input.assignedDriverId !== actor.id) {
+    return { ok: false, code: "forbidden", message: "You can only assign requests to yourself" };
+  }
+
+  return { ok: true, rule };
+}
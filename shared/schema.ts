@@ -5,14 +5,16 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   decimal,
   integer,
   boolean,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MAX_GPS_ACCURACY_M } from "./gpsTracking";
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -33,47 +35,193 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   role: varchar("role").notNull().default("client"), // client, driver, admin
+  emailVerified: boolean("email_verified").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  bidApprovalRequired: boolean("bid_approval_required").notNull().default(false), // client's bid choices wait for an admin
+  ratingAverage: decimal("rating_average", { precision: 3, scale: 2 }), // cached from reviews; null until the first one
+  ratingCount: integer("rating_count").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use tokens for password reset and email verification (only the SHA-256 of the token is stored)
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    type: varchar("type").notNull(), // password_reset, email_verification
+    tokenHash: varchar("token_hash").unique().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_auth_tokens_user_type").on(table.userId, table.type)],
+);
+
+// Failed login tracking, keyed by "email:<address>" or "ip:<address>"
+export const loginThrottles = pgTable("login_throttles", {
+  key: varchar("key").primaryKey(),
+  failedCount: integer("failed_count").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+});
+
 // Transport requests table
 export const transportRequests = pgTable("transport_requests", {
   id: serial("id").primaryKey(),
   clientId: integer("client_id").notNull(),
   pickupLocation: text("pickup_location").notNull(),
   deliveryLocation: text("delivery_location").notNull(),
+  pickupLatitude: decimal("pickup_latitude", { precision: 10, scale: 8 }), // optional pin, used to rank bids by driver distance
+  pickupLongitude: decimal("pickup_longitude", { precision: 11, scale: 8 }),
   stopLocations: jsonb("stop_locations").default([]), // Array of intermediate stops
   pickupDate: timestamp("pickup_date").notNull(),
   deliveryDate: timestamp("delivery_date").notNull(),
   itemDescription: text("item_description").notNull(),
   weight: decimal("weight", { precision: 10, scale: 2 }).notNull(),
-  dimensions: text("dimensions").notNull(),
+  dimensions: text("dimensions").notNull(), // display summary, e.g. "2 × (120 × 80 × 60 cm)"
+  // Per-package dimensions; null only on legacy rows whose free-text dimensions couldn't be parsed
+  lengthCm: integer("length_cm"),
+  widthCm: integer("width_cm"),
+  heightCm: integer("height_cm"),
+  quantity: integer("quantity").notNull().default(1),
+  cargoCategory: varchar("cargo_category").notNull().default("general"), // general, fragile, perishable, hazardous, furniture, vehicle
+  handlingFlags: jsonb("handling_flags").default([]), // Array of HANDLING_FLAGS
   budget: decimal("budget", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status").notNull().default("pending"), // pending, assigned, in_progress, completed, cancelled
+  status: varchar("status").notNull().default("pending"), // pending, assigned, in_progress, completed, cancelled, expired
   assignedDriverId: integer("assigned_driver_id"),
+  cancellationFee: decimal("cancellation_fee", { precision: 10, scale: 2 }), // charged when the client cancels after assignment
   isMultipleStops: boolean("is_multiple_stops").notNull().default(false),
+  // Optional bidding deadline; the bidding scheduler sets biddingClosedAt once it has processed it
+  biddingClosesAt: timestamp("bidding_closes_at"),
+  biddingClosedAt: timestamp("bidding_closed_at"),
+  autoAward: boolean("auto_award").notNull().default(false), // award the best qualifying bid when bidding closes
+  biddingMode: varchar("bidding_mode").notNull().default("sealed"), // sealed, open_auction, fixed_price
+  minBidDecrement: decimal("min_bid_decrement", { precision: 10, scale: 2 }), // open auctions: how far a bid must undercut the lowest
+  version: integer("version").notNull().default(1), // bumped on every write; clients echo it back for optimistic concurrency
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every status change of a transport request, oldest first gives the request's timeline
+export const requestStatusHistory = pgTable(
+  "request_status_history",
+  {
+    id: serial("id").primaryKey(),
+    requestId: integer("request_id").references(() => transportRequests.id).notNull(),
+    fromStatus: varchar("from_status"), // null for the creation entry
+    toStatus: varchar("to_status").notNull(),
+    actorId: integer("actor_id").references(() => users.id), // null for system changes
+    driverId: integer("driver_id").references(() => users.id), // the request's assigned driver after the change
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_request_status_history_request").on(table.requestId)],
+);
+
+// A driver holds at most one bid in these statuses per request; withdrawn, rejected and invalidated bids
+// don't count, so the driver can bid again if the request reopens
+export const ACTIVE_BID_STATUSES = ["pending", "client_selected", "accepted"] as const;
+
 // Bids table
-export const bids = pgTable("bids", {
+export const bids = pgTable(
+  "bids",
+  {
+    id: serial("id").primaryKey(),
+    requestId: integer("request_id").notNull(),
+    driverId: integer("driver_id").notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    message: text("message"),
+    estimatedDelivery: timestamp("estimated_delivery"),
+    status: varchar("status").notNull().default("pending"), // pending, client_selected (awaiting admin approval), accepted, rejected, invalidated (request changed after bidding), withdrawn
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_bids_active_driver_request")
+      .on(table.requestId, table.driverId)
+      .where(sql`${table.status} in ('pending', 'client_selected', 'accepted')`),
+  ],
+);
+
+// Every amount/message revision of a bid, kept for auditing
+export const bidRevisions = pgTable(
+  "bid_revisions",
+  {
+    id: serial("id").primaryKey(),
+    bidId: integer("bid_id").references(() => bids.id).notNull(),
+    previousAmount: decimal("previous_amount", { precision: 10, scale: 2 }).notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    previousMessage: text("previous_message"),
+    message: text("message"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_bid_revisions_bid").on(table.bidId)],
+);
+
+// Ratings left after a completed request: the client rates the driver (with category scores) and the driver rates the client
+export const reviews = pgTable(
+  "reviews",
+  {
+    id: serial("id").primaryKey(),
+    requestId: integer("request_id").references(() => transportRequests.id).notNull(),
+    reviewerId: integer("reviewer_id").references(() => users.id).notNull(),
+    revieweeId: integer("reviewee_id").references(() => users.id).notNull(),
+    rating: integer("rating").notNull(), // 1–5
+    punctuality: integer("punctuality"), // 1–5 category scores, only when a client rates a driver
+    care: integer("care"),
+    communication: integer("communication"),
+    comment: text("comment"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("UQ_reviews_request_reviewer").on(table.requestId, table.reviewerId),
+    index("IDX_reviews_reviewee").on(table.revieweeId),
+  ],
+);
+
+// Driver vehicles table (a driver can register several vehicles)
+export const vehicles = pgTable("vehicles", {
   id: serial("id").primaryKey(),
-  requestId: integer("request_id").notNull(),
-  driverId: integer("driver_id").notNull(),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  message: text("message"),
-  estimatedDelivery: timestamp("estimated_delivery"),
-  status: varchar("status").notNull().default("pending"), // pending, accepted, rejected
+  driverId: integer("driver_id").references(() => users.id).notNull(),
+  type: varchar("type").notNull(), // bakkie, panel_van, light_truck, medium_truck, heavy_truck, flatbed
+  make: varchar("make").notNull(),
+  model: varchar("model").notNull(),
+  licensePlate: varchar("license_plate").notNull(),
+  maxPayloadKg: decimal("max_payload_kg", { precision: 10, scale: 2 }).notNull(),
+  volumeM3: decimal("volume_m3", { precision: 8, scale: 2 }),
+  // Internal load-bay dimensions; null when the driver hasn't measured them
+  loadLengthCm: integer("load_length_cm"),
+  loadWidthCm: integer("load_width_cm"),
+  loadHeightCm: integer("load_height_cm"),
+  colour: varchar("colour"),
+  hasTailLift: boolean("has_tail_lift").notNull().default(false),
+  isRefrigerated: boolean("is_refrigerated").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Admin-tunable settings, one JSON value per key; each key is validated by its own schema where it is read
+export const platformSettings = pgTable("platform_settings", {
+  key: varchar("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   transportRequests: many(transportRequests),
   bids: many(bids),
+  vehicles: many(vehicles),
+}));
+
+export const vehiclesRelations = relations(vehicles, ({ one }) => ({
+  driver: one(users, {
+    fields: [vehicles.driverId],
+    references: [users.id],
+  }),
 }));
 
 export const transportRequestsRelations = relations(transportRequests, ({ one, many }) => ({
@@ -86,9 +234,21 @@ export const transportRequestsRelations = relations(transportRequests, ({ one, m
     references: [users.id],
   }),
   bids: many(bids),
+  statusHistory: many(requestStatusHistory),
 }));
 
-export const bidsRelations = relations(bids, ({ one }) => ({
+export const requestStatusHistoryRelations = relations(requestStatusHistory, ({ one }) => ({
+  request: one(transportRequests, {
+    fields: [requestStatusHistory.requestId],
+    references: [transportRequests.id],
+  }),
+  actor: one(users, {
+    fields: [requestStatusHistory.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const bidsRelations = relations(bids, ({ one, many }) => ({
   request: one(transportRequests, {
     fields: [bids.requestId],
     references: [transportRequests.id],
@@ -97,6 +257,29 @@ export const bidsRelations = relations(bids, ({ one }) => ({
     fields: [bids.driverId],
     references: [users.id],
   }),
+  revisions: many(bidRevisions),
+}));
+
+export const bidRevisionsRelations = relations(bidRevisions, ({ one }) => ({
+  bid: one(bids, {
+    fields: [bidRevisions.bidId],
+    references: [bids.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one }) => ({
+  request: one(transportRequests, {
+    fields: [reviews.requestId],
+    references: [transportRequests.id],
+  }),
+  reviewer: one(users, {
+    fields: [reviews.reviewerId],
+    references: [users.id],
+  }),
+  reviewee: one(users, {
+    fields: [reviews.revieweeId],
+    references: [users.id],
+  }),
 }));
 
 // Zod schemas
@@ -117,18 +300,68 @@ export const registerUserSchema = insertUserSchema.extend({
   password: z.string().min(6),
 });
 
+export const adminUserListQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  role: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(["client", "driver", "admin"]),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
 // Schema for backend validation (expects Date objects)
 export const insertTransportRequestSchema = createInsertSchema(transportRequests).pick({
   pickupLocation: true,
   deliveryLocation: true,
+  pickupLatitude: true,
+  pickupLongitude: true,
   pickupDate: true,
   deliveryDate: true,
   itemDescription: true,
   weight: true,
   dimensions: true,
+  lengthCm: true,
+  widthCm: true,
+  heightCm: true,
+  quantity: true,
+  cargoCategory: true,
+  handlingFlags: true,
   budget: true,
+  biddingClosesAt: true,
+  autoAward: true,
+  biddingMode: true,
+  minBidDecrement: true,
 });
 
+// sealed: drivers bid blind; open_auction: drivers see their rank and the lowest bid live;
+// fixed_price: the budget is published and the first eligible driver to claim it is assigned
+export const BIDDING_MODES = ["sealed", "open_auction", "fixed_price"] as const;
+
+export const CARGO_CATEGORIES = ["general", "fragile", "perishable", "hazardous", "furniture", "vehicle"] as const;
+
+export const HANDLING_FLAGS = [
+  "keep_upright",
+  "do_not_stack",
+  "refrigeration_required",
+  "tail_lift_required",
+  "two_person_lift",
+] as const;
+
 // Schema for frontend form validation (expects strings from form inputs)
 export const clientTransportRequestSchema = z.object({
   pickupLocation: z.string().min(1, "Pickup location is required"),
@@ -139,18 +372,44 @@ export const clientTransportRequestSchema = z.object({
   deliveryTime: z.string().min(1, "Delivery time is required"),
   itemDescription: z.string().min(1, "Item description is required"),
   weight: z.string().min(1, "Weight is required"),
-  dimensions: z.string().min(1, "Dimensions are required"),
+  lengthCm: z.string().min(1, "Length is required").refine((value) => parseInt(value) > 0, "Length must be greater than 0"),
+  widthCm: z.string().min(1, "Width is required").refine((value) => parseInt(value) > 0, "Width must be greater than 0"),
+  heightCm: z.string().min(1, "Height is required").refine((value) => parseInt(value) > 0, "Height must be greater than 0"),
+  quantity: z.string().min(1, "Quantity is required").refine((value) => parseInt(value) > 0, "Quantity must be at least 1"),
+  cargoCategory: z.enum(CARGO_CATEGORIES),
+  handlingFlags: z.array(z.enum(HANDLING_FLAGS)).default([]),
   budget: z.string().min(1, "Budget is required"),
   isMultipleStops: z.boolean().default(false),
   stopLocations: z.array(z.string()).optional(),
+  biddingClosesAt: z.string().optional(), // datetime-local value; empty keeps bidding open until a bid is accepted
+  autoAward: z.boolean().default(false),
+  biddingMode: z.enum(BIDDING_MODES).default("sealed"),
+  minBidDecrement: z.string().optional(),
+  pickupLatitude: z.number().min(-90).max(90).optional(), // set from the browser's location when the client pins the pickup
+  pickupLongitude: z.number().min(-180).max(180).optional(),
 });
 
+// Summary stored in transportRequests.dimensions for display
+export function formatDimensions(dimensions: { lengthCm: number; widthCm: number; heightCm: number; quantity: number }): string {
+  const size = `${dimensions.lengthCm} × ${dimensions.widthCm} × ${dimensions.heightCm} cm`;
+  return dimensions.quantity > 1 ? `${dimensions.quantity} × (${size})` : size;
+}
+
 export const insertBidSchema = createInsertSchema(bids).pick({
   requestId: true,
   amount: true,
   message: true,
 });
 
+// API payloads for placing and revising a bid; the bid form sends the amount as a number
+export const placeBidSchema = insertBidSchema.extend({
+  requestId: z.coerce.number().int().positive(),
+  amount: z.coerce.number().positive("Bid amount must be greater than zero"),
+  message: z.string().trim().max(1000).nullish(),
+});
+
+export const reviseBidSchema = placeBidSchema.pick({ amount: true, message: true });
+
 // Schema for frontend bid form validation (expects strings from form inputs)
 export const clientBidSchema = z.object({
   requestId: z.number(),
@@ -158,33 +417,156 @@ export const clientBidSchema = z.object({
   message: z.string().optional(),
 });
 
+export const VEHICLE_TYPES = ["bakkie", "panel_van", "light_truck", "medium_truck", "heavy_truck", "flatbed"] as const;
+
+// Shared by the driver profile form (string inputs) and the API (JSON numbers)
+// Blank form inputs arrive as "" and mean "not provided"
+const optionalPositiveNumber = (message: string, integerOnly = false) =>
+  z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    (integerOnly ? z.coerce.number().int() : z.coerce.number()).positive(message).optional(),
+  );
+
+export const vehicleSchema = z.object({
+  type: z.enum(VEHICLE_TYPES),
+  make: z.string().trim().min(1, "Make is required"),
+  model: z.string().trim().min(1, "Model is required"),
+  licensePlate: z.string().trim().min(1, "License plate is required"),
+  maxPayloadKg: z.coerce.number().positive("Payload must be greater than 0"),
+  volumeM3: optionalPositiveNumber("Volume must be greater than 0"),
+  loadLengthCm: optionalPositiveNumber("Length must be greater than 0", true),
+  loadWidthCm: optionalPositiveNumber("Width must be greater than 0", true),
+  loadHeightCm: optionalPositiveNumber("Height must be greater than 0", true),
+  colour: z.string().trim().optional(),
+  hasTailLift: z.boolean().default(false),
+  isRefrigerated: z.boolean().default(false),
+});
+
+export const reassignRequestSchema = z.object({
+  reason: z.string().trim().max(500, "Reason is too long").optional(),
+});
+
+export const updateRequestStatusSchema = z.object({
+  status: z.string().min(1, "Status is required"),
+  reason: z.string().trim().optional(),
+});
+
+export const updateBidApprovalSchema = z.object({
+  required: z.boolean(),
+});
+
+// `version` is the transport request version the client last saw; a stale one gets a 409
+export const acceptBidSchema = z.object({
+  version: z.number().int().positive().optional(),
+});
+
+export const assignDriverSchema = acceptBidSchema.extend({
+  driverId: z.coerce.number().int().positive(),
+});
+
+export const cancelRequestSchema = z.object({
+  reason: z.string().trim().min(1, "A cancellation reason is required"),
+});
+
+export const REVIEW_CATEGORIES = ["punctuality", "care", "communication"] as const;
+
+const reviewScore = z.coerce.number().int().min(1, "Pick 1 to 5 stars").max(5, "Pick 1 to 5 stars");
+
+// Category scores only apply when a client rates a driver; the route ignores them otherwise
+export const createReviewSchema = z.object({
+  rating: reviewScore,
+  punctuality: reviewScore.optional(),
+  care: reviewScore.optional(),
+  communication: reviewScore.optional(),
+  comment: z.string().trim().max(1000).nullish().transform((comment) => comment || null),
+});
+
 // Types
 export type InsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type AuthTokenType = "password_reset" | "email_verification";
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
 export type InsertTransportRequest = z.infer<typeof insertTransportRequestSchema>;
 export type TransportRequest = typeof transportRequests.$inferSelect;
 export type InsertBid = z.infer<typeof insertBidSchema>;
 export type Bid = typeof bids.$inferSelect;
+export type BidRevision = typeof bidRevisions.$inferSelect;
+export type PlatformSetting = typeof platformSettings.$inferSelect;
+export type Review = typeof reviews.$inferSelect;
+export type ReviewEntry = Review & {
+  reviewerFirstName: string | null;
+  reviewerRole: string | null;
+};
+export type InsertReview = typeof reviews.$inferInsert;
+export type CreateReview = z.infer<typeof createReviewSchema>;
+export type ReviewCategory = (typeof REVIEW_CATEGORIES)[number];
+export type RequestStatusHistory = typeof requestStatusHistory.$inferSelect;
+export type RequestStatusHistoryEntry = RequestStatusHistory & {
+  actorFirstName: string | null;
+  actorLastName: string | null;
+  actorRole: string | null;
+};
+// Computed by server/driverMetrics.ts. Rates are percentages and null until there is something to measure.
+export interface DriverMetrics {
+  completedJobs: number;
+  onTimeJobs: number;
+  onTimeRate: number | null;
+  cancellationRate: number | null; // share of assignments that ended cancelled or reassigned to someone else
+  bidsPlaced: number;
+  acceptanceRate: number | null; // share of decided bids that were accepted
+  averageBidToBudget: number | null; // e.g. 92 when bids average 92% of the client's budget
+}
+// Response of GET /api/drivers/:id: public details, vehicles and the rating cached from reviews
+export interface DriverProfile {
+  id: number;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+  role: string;
+  createdAt: Date | null;
+  vehicles: Vehicle[];
+  rating: {
+    average: number | null;
+    count: number;
+    categories: Record<ReviewCategory, number | null>;
+  };
+  recentReviews: ReviewEntry[];
+}
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertVehicle = typeof vehicles.$inferInsert;
+export type VehicleInput = z.infer<typeof vehicleSchema>;
+export type VehicleType = (typeof VEHICLE_TYPES)[number];
+export type CargoCategory = (typeof CARGO_CATEGORIES)[number];
+export type BiddingMode = (typeof BIDDING_MODES)[number];
+export type HandlingFlag = (typeof HANDLING_FLAGS)[number];
+
+export const GPS_TRACKING_STATUSES = ["en_route", "arrived_pickup", "picked_up", "en_route_delivery", "delivered"] as const;
 
 // GPS Tracking table for real-time delivery tracking
-export const gpsTracking = pgTable("gps_tracking", {
-  id: serial("id").primaryKey(),
-  requestId: integer("request_id").references(() => transportRequests.id).notNull(),
-  driverId: integer("driver_id").references(() => users.id).notNull(),
-  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
-  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
-  speed: decimal("speed", { precision: 5, scale: 2 }), // km/h
-  heading: decimal("heading", { precision: 5, scale: 2 }), // degrees
-  accuracy: decimal("accuracy", { precision: 8, scale: 2 }), // meters
-  timestamp: timestamp("timestamp").defaultNow().notNull(),
-  status: varchar("status").notNull().default("en_route"), // en_route, arrived_pickup, picked_up, en_route_delivery, delivered
-  estimatedArrival: timestamp("estimated_arrival"),
-  batteryLevel: integer("battery_level"), // percentage
-  isActive: boolean("is_active").default(true),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const gpsTracking = pgTable(
+  "gps_tracking",
+  {
+    id: serial("id").primaryKey(),
+    requestId: integer("request_id").references(() => transportRequests.id).notNull(),
+    driverId: integer("driver_id").references(() => users.id).notNull(),
+    clientPointId: varchar("client_point_id"), // generated on the device for batched uploads, so retries are not stored twice
+    latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+    longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+    speed: decimal("speed", { precision: 5, scale: 2 }), // km/h
+    heading: decimal("heading", { precision: 5, scale: 2 }), // degrees
+    accuracy: decimal("accuracy", { precision: 8, scale: 2 }), // meters
+    timestamp: timestamp("timestamp").defaultNow().notNull(), // when the point was recorded, on the device for batched uploads
+    status: varchar("status").notNull().default("en_route"), // en_route, arrived_pickup, picked_up, en_route_delivery, delivered
+    estimatedArrival: timestamp("estimated_arrival"),
+    batteryLevel: integer("battery_level"), // percentage
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(), // when the server received it
+  },
+  (table) => [uniqueIndex("UQ_gps_tracking_driver_point").on(table.driverId, table.clientPointId)],
+);
 
 // GPS tracking relations
 export const gpsTrackingRelations = relations(gpsTracking, ({ one }) => ({
@@ -216,3 +598,34 @@ export const insertGpsTrackingSchema = createInsertSchema(gpsTracking).pick({
 });
 
 export type InsertGpsTrackingRequest = typeof insertGpsTrackingSchema._type;
+
+export const GPS_BATCH_MAX_POINTS = 500;
+
+// A fix posted by the driver's device; the driver is taken from the session. Decimal columns arrive as numbers.
+// Coordinates are range-checked by the plausibility rules in shared/gpsTracking.ts, which report a reason.
+export const gpsTrackingSubmissionSchema = insertGpsTrackingSchema.omit({ driverId: true }).extend({
+  requestId: z.coerce.number().int().positive(),
+  latitude: z.coerce.number().finite(),
+  longitude: z.coerce.number().finite(),
+  speed: z.coerce.number().min(0).max(999).nullish(),
+  heading: z.coerce.number().min(0).max(360).nullish(),
+  accuracy: z.coerce.number().min(0).max(MAX_GPS_ACCURACY_M).nullish(),
+  status: z.enum(GPS_TRACKING_STATUSES).default("en_route"),
+  estimatedArrival: z.coerce.date().nullish(),
+  batteryLevel: z.coerce.number().int().min(0).max(100).nullish(),
+});
+
+// A point recorded on the device, possibly while offline, with the time it was recorded there
+export const gpsTrackingPointSchema = gpsTrackingSubmissionSchema.extend({
+  clientPointId: z.string().min(1).max(64),
+  recordedAt: z.coerce.date(),
+});
+
+// Buffered points uploaded together, oldest first
+export const gpsTrackingBatchSchema = z.object({
+  points: z.array(gpsTrackingPointSchema).min(1).max(GPS_BATCH_MAX_POINTS),
+});
+
+export type GpsTrackingStatus = (typeof GPS_TRACKING_STATUSES)[number];
+export type GpsTrackingSubmission = z.infer<typeof gpsTrackingSubmissionSchema>;
+export type GpsTrackingPoint = z.input<typeof gpsTrackingPointSchema>;